@@ -1,154 +1,42 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import GardenCanvas from './components/GardenCanvas';
 import Controls from './components/Controls';
-import { PlantSettings, PlantType, GardenCanvasRef } from './types';
-
-// Vine: More harmonious natural greens
-const PRESET_VINE: PlantSettings = {
-  type: PlantType.VINE,
-  stemColorStart: '#a3e635', // Lime 400
-  stemColorEnd: '#15803d',   // Green 700
-  baseWidth: 6,
-  growthSpeed: 3,
-  maxLife: 280,
-  curlFactor: 0.08,
-  straightness: 0.4, 
-  
-  leafColorStart: '#d9f99d', // Lime 200
-  leafColorEnd: '#166534',   // Green 800
-  leafFrequency: 0.1,
-  leafSize: 12,
-
-  flowerColorStart: '#fca5a5', 
-  flowerColorEnd: '#c4b5fd',   
-  flowerProbability: 0.7,
-  flowerSize: 20,
-  petalCount: 7,
-};
-
-// Palm: Big leaves, Thick stem, Earthy Greens
-const PRESET_PALM: PlantSettings = {
-  type: PlantType.PALM,
-  stemColorStart: '#78716c', // Stone grey/brown
-  stemColorEnd: '#65a30d',   // Olive
-  baseWidth: 10,
-  growthSpeed: 2.5,
-  maxLife: 350,
-  curlFactor: 0.05,
-  straightness: 0.7, 
-  
-  leafColorStart: '#d9f99d', // Light moss
-  leafColorEnd: '#14532d',   // Dark green
-  leafFrequency: 0.05, // Rarer
-  leafSize: 35, // Huge
-
-  flowerColorStart: '#fdba74', // Orange
-  flowerColorEnd: '#fcd34d',   // Yellow
-  flowerProbability: 0.4,
-  flowerSize: 25,
-  petalCount: 5,
-};
-
-// Geometric: Sharp, Linear, Cool Blues/Greys
-const PRESET_GEOMETRIC: PlantSettings = {
-  type: PlantType.GEOMETRIC,
-  stemColorStart: '#475569', // Slate
-  stemColorEnd: '#94a3b8',   // Light slate
-  baseWidth: 4,
-  growthSpeed: 4,
-  maxLife: 300,
-  curlFactor: 0, // Unused in geometric
-  straightness: 0.9, 
-  
-  leafColorStart: '#e2e8f0', 
-  leafColorEnd: '#64748b',   
-  leafFrequency: 0.15,
-  leafSize: 10,
-
-  flowerColorStart: '#e0f2fe', 
-  flowerColorEnd: '#0ea5e9',   
-  flowerProbability: 0.6,
-  flowerSize: 15,
-  petalCount: 9,
-};
-
-// Umbrella: Tall, Solitary, Huge top leaf/bloom
-const PRESET_UMBRELLA: PlantSettings = {
-  type: PlantType.UMBRELLA,
-  stemColorStart: '#064e3b', // Dark Emerald
-  stemColorEnd: '#34d399',   // Light Green
-  baseWidth: 8,
-  growthSpeed: 3,
-  maxLife: 400,
-  curlFactor: 0.03, // Very straight
-  straightness: 0.8, 
-  
-  leafColorStart: '#047857', 
-  leafColorEnd: '#6ee7b7',   
-  leafFrequency: 0.01, // Very Rare side leaves
-  leafSize: 45, // Massive
-
-  flowerColorStart: '#fef3c7', // Cream
-  flowerColorEnd: '#fffbeb',   // White
-  flowerProbability: 0.9, // Almost always blooms at top
-  flowerSize: 40,
-  petalCount: 1, // Special rendering for 1 petal (spathe)
-};
-
-// Berry: Twiggy, Woody, Red Fruits
-const PRESET_BERRY: PlantSettings = {
-  type: PlantType.BERRY,
-  stemColorStart: '#422006', // Dark wood
-  stemColorEnd: '#a8a29e',   // Grey wood
-  baseWidth: 3,
-  growthSpeed: 3.5,
-  maxLife: 250,
-  curlFactor: 0.15, // Erratic
-  straightness: 0.3, 
-  
-  leafColorStart: '#3f6212', // Olive
-  leafColorEnd: '#166534',   // Green
-  leafFrequency: 0.05, // Sparse leaves
-  leafSize: 8, // Small
-
-  flowerColorStart: '#dc2626', // Red
-  flowerColorEnd: '#f97316',   // Orange
-  flowerProbability: 0.8,
-  flowerSize: 12,
-  petalCount: 5, // Used as berry count
-};
-
-// Cluster: Bushy, Cool Tones, Blue Flower Clusters
-const PRESET_CLUSTER: PlantSettings = {
-  type: PlantType.CLUSTER,
-  stemColorStart: '#334155', // Slate 700
-  stemColorEnd: '#94a3b8',   // Slate 400
-  baseWidth: 5,
-  growthSpeed: 3,
-  maxLife: 260,
-  curlFactor: 0.1, // Wavy
-  straightness: 0.5, 
-  
-  leafColorStart: '#0f766e', // Teal 700
-  leafColorEnd: '#5eead4',   // Teal 300
-  leafFrequency: 0.08, 
-  leafSize: 10,
-
-  flowerColorStart: '#93c5fd', // Blue 300
-  flowerColorEnd: '#1e3a8a',   // Blue 900
-  flowerProbability: 0.85,
-  flowerSize: 24, // Size of the whole cluster
-  petalCount: 12, // Number of florets in cluster
-};
+import BreedingPanel from './components/BreedingPanel';
+import PlantInspector from './components/PlantInspector';
+import { Environment, PlantSettings, PlantType, PlantDNA, PlantSummary, GardenCanvasRef, GrowthPace, PlantTransform, PngExportSize, SpeciesId, Vessel } from './types';
+import { getSpecies } from './species';
+import { encodeDna, decodeDna, DnaError } from './utils/dna';
+import { downloadFile } from './utils/download';
+import { crossSettings } from './utils/breeding';
+import { limitBranching } from './utils/genes';
+import { randomSeed } from './utils/random';
+import { DEFAULT_ENVIRONMENT } from './utils/environment';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
 
 const App: React.FC = () => {
-  const [settings, setSettings] = useState<PlantSettings>(PRESET_VINE);
+  const [settings, setSettings] = useState<PlantSettings>(getSpecies(PlantType.VINE).preset);
   const [clearTrigger, setClearTrigger] = useState(0);
   const [toastMessage, setToastMessage] = useState<string | null>(null);
   const [importString, setImportString] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [history, setHistory] = useState({ canUndo: false, canRedo: false });
+  // Breeding mode is on while `breedingParents` is not null
+  const [breedingParents, setBreedingParents] = useState<PlantSummary[] | null>(null);
+  const [mutationRate, setMutationRate] = useState(0.1);
+  // Wind, light and gravity; the canvas replaces it with the saved one on load
+  const [environment, setEnvironment] = useState<Environment>(DEFAULT_ENVIRONMENT);
+  // Whether plants going into a vessel are shrunk to fit it
+  const [autoFit, setAutoFit] = useState(false);
+  // Shape of the vessel selected in the garden, if any
+  const [selectedVessel, setSelectedVessel] = useState<Vessel | null>(null);
+  // The bottle plant shown in the inspector, with the vessel it grows in
+  const [selectedPlant, setSelectedPlant] = useState<{ plant: PlantSummary; vessel?: Vessel; transform: PlantTransform } | null>(null);
+  const [pace, setPace] = useState<GrowthPace>({ playing: true, speed: 1 });
+  // Users who prefer reduced motion get plants that finish growing at once
+  const [reducedMotion, setReducedMotion] = useState(() => window.matchMedia(REDUCED_MOTION_QUERY).matches);
   
   const canvasRef = useRef<GardenCanvasRef>(null);
-  const bottleRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
       if (toastMessage) {
@@ -157,56 +45,20 @@ const App: React.FC = () => {
       }
   }, [toastMessage]);
 
-  // Update canvas with bottle bounds on mount/resize
   useEffect(() => {
-      const updateBounds = () => {
-          if (bottleRef.current && canvasRef.current) {
-              const rect = bottleRef.current.getBoundingClientRect();
-              canvasRef.current.updateBottleRect(rect);
-          }
-      };
-      
-      updateBounds();
-      window.addEventListener('resize', updateBounds);
-      // Also update on scroll since position relative to viewport might change if we use fixed positions,
-      // but here bottle flows with document, so rect relative to viewport changes on scroll.
-      // However, GardenCanvas uses getBoundingClientRect() inside spawn logic too?
-      // Actually GardenCanvas.tsx only uses updateBottleRect to store the rect for drag constraints.
-      // Drag constraints need to be fresh if we scroll.
-      window.addEventListener('scroll', updateBounds);
-      
-      return () => {
-          window.removeEventListener('resize', updateBounds);
-          window.removeEventListener('scroll', updateBounds);
-      };
+      const query = window.matchMedia(REDUCED_MOTION_QUERY);
+      const handleChange = () => setReducedMotion(query.matches);
+      query.addEventListener('change', handleChange);
+      return () => query.removeEventListener('change', handleChange);
   }, []);
 
   const updateSettings = (newSettings: Partial<PlantSettings>) => {
-    setSettings(prev => ({ ...prev, ...newSettings }));
+    // Genes each in range may still fork past the budget together, so the branch chance gives way
+    setSettings(prev => limitBranching({ ...prev, ...newSettings }));
   };
 
-  const applyPreset = (type: PlantType) => {
-      switch (type) {
-          case PlantType.PALM:
-              setSettings(PRESET_PALM);
-              break;
-          case PlantType.GEOMETRIC:
-              setSettings(PRESET_GEOMETRIC);
-              break;
-          case PlantType.UMBRELLA:
-              setSettings(PRESET_UMBRELLA);
-              break;
-          case PlantType.BERRY:
-              setSettings(PRESET_BERRY);
-              break;
-          case PlantType.CLUSTER:
-              setSettings(PRESET_CLUSTER);
-              break;
-          case PlantType.VINE:
-          default:
-              setSettings(PRESET_VINE);
-              break;
-      }
+  const applyPreset = (type: SpeciesId) => {
+      setSettings(getSpecies(type).preset);
   };
 
   const handleClear = () => {
@@ -214,16 +66,75 @@ const App: React.FC = () => {
     setClearTrigger(prev => prev + 1);
   };
 
-  const handleUndo = () => {
-      if (canvasRef.current) {
-          canvasRef.current.undo();
-          setToastMessage("Retracted last bottle plant.");
+  const handleUndo = useCallback(async () => {
+      const label = await canvasRef.current?.undo();
+      if (label) setToastMessage(`Undid: ${label}`);
+  }, []);
+
+  const handleRedo = useCallback(async () => {
+      const label = await canvasRef.current?.redo();
+      if (label) setToastMessage(`Redid: ${label}`);
+  }, []);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes, Delete removes the selected plant; text fields keep their own keys
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          const target = e.target as HTMLElement | null;
+          if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+          // Delete or Backspace deletes the selected plant
+          if ((e.key === 'Delete' || e.key === 'Backspace') && selectedPlant) {
+              e.preventDefault();
+              canvasRef.current?.deletePlant(selectedPlant.plant.id);
+              return;
+          }
+          if (!(e.ctrlKey || e.metaKey)) return;
+
+          const key = e.key.toLowerCase();
+          if (key === 'z') {
+              e.preventDefault();
+              if (e.shiftKey) handleRedo();
+              else handleUndo();
+          } else if (key === 'y') {
+              e.preventDefault();
+              handleRedo();
+          }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo, selectedPlant]);
+
+  const handleExportSvg = async () => {
+      if (!canvasRef.current) return;
+      try {
+          downloadFile('sketch-garden.svg', await canvasRef.current.exportSvg(), 'image/svg+xml');
+          setToastMessage("Garden exported as SVG.");
+      } catch (e) {
+          console.error("Failed to export SVG", e);
+          setToastMessage("SVG export failed.");
+      }
+  };
+
+  const handleExportPng = async (size: PngExportSize) => {
+      if (!canvasRef.current) return;
+      try {
+          const png = await canvasRef.current.exportPng(size);
+          downloadFile('sketch-garden.png', png, 'image/png');
+          setToastMessage("Garden exported as PNG.");
+      } catch (e) {
+          console.error("Failed to export PNG", e);
+          setToastMessage("PNG export failed.");
       }
   };
 
-  const handleSettingsCopied = (copiedSettings: PlantSettings) => {
+  const handlePlantExported = (svg: string) => {
+      downloadFile('sketch-plant.svg', svg, 'image/svg+xml');
+      setToastMessage("Plant exported as SVG.");
+  };
+
+  const handleSettingsCopied = (copiedSettings: PlantSettings, seed: number, copiedVessel?: Vessel) => {
       try {
-          const id = btoa(JSON.stringify(copiedSettings));
+          // The seed (and for bottle plants, the vessel) travels with the settings so the paste regrows the very same plant
+          const id = encodeDna({ settings: copiedSettings, seed, vessel: copiedVessel });
           navigator.clipboard.writeText(id);
           setToastMessage("Seed DNA copied to clipboard!");
       } catch (e) {
@@ -231,42 +142,51 @@ const App: React.FC = () => {
       }
   };
 
+  // Plants into the selected vessel (or the first); returns false if the garden has no vessel yet
+  const plantInVessel = (plantSettings: PlantSettings, seed: number, parents?: string[], dnaVessel?: Vessel) =>
+      canvasRef.current?.plantInVessel(plantSettings, seed, parents, dnaVessel) ?? false;
+
   const handleImport = (value: string) => {
       setImportString(value);
-      if (!value) return;
+      if (!value.trim()) {
+          setImportError(null);
+          return;
+      }
 
+      let dna: PlantDNA;
       try {
-          const decoded = atob(value);
-          const parsed = JSON.parse(decoded) as PlantSettings;
-          // Validate minimally
-          if (parsed.stemColorStart && parsed.type) {
-              setSettings(parsed);
-              setToastMessage("Seed DNA planted!");
-              
-              // Trigger spawn at bottle bottom
-              if (bottleRef.current && canvasRef.current) {
-                  // Re-calculate position based on current layout
-                  const rect = bottleRef.current.getBoundingClientRect();
-                  // We need x, y relative to the canvas (which covers the container).
-                  // Canvas is absolute inset-0 of the container.
-                  // If container is relative, canvas 0,0 is container 0,0.
-                  // bottleRef.offsetLeft is relative to container.
-                  const x = bottleRef.current.offsetLeft + bottleRef.current.offsetWidth / 2;
-                  const y = bottleRef.current.offsetTop + bottleRef.current.offsetHeight - 10; 
-
-                  // Spawn INSIDE bottle
-                  canvasRef.current.spawn(x, y, parsed, true);
-                  setImportString(''); // Clear input on success
-              }
-
-          } else {
-              // Silent fail or minimal feedback for invalid while typing? 
-          }
+          dna = decodeDna(value);
       } catch (e) {
-          // invalid format
+          if (!(e instanceof DnaError)) throw e;
+          setImportError(e.message);
+          return;
+      }
+
+      setImportError(null);
+      setSettings(dna.settings);
+      // An empty vessel is reshaped to the one the DNA carries
+      if (plantInVessel(dna.settings, dna.seed, undefined, dna.vessel)) {
+          setToastMessage("Seed DNA planted!");
+          setImportString(''); // Clear input on success
       }
   };
 
+  const handleParentPicked = (plant: PlantSummary) => {
+      setBreedingParents(prev => {
+          if (!prev || prev.some(p => p.id === plant.id)) return prev;
+          // A third pick replaces the older parent
+          return [...prev, plant].slice(-2);
+      });
+  };
+
+  const handleBreed = () => {
+      if (!breedingParents || breedingParents.length < 2) return;
+      const [a, b] = breedingParents;
+      const offspring = crossSettings(a.settings, b.settings, mutationRate);
+      setSettings(offspring);
+      if (plantInVessel(offspring, randomSeed(), [a.id, b.id])) setToastMessage("Offspring planted in the vessel!");
+  };
+
   return (
     <div className="flex w-full min-h-screen bg-[#fdfbf7] font-sans select-none text-slate-800">
       
@@ -277,6 +197,19 @@ const App: React.FC = () => {
             updateSettings={updateSettings} 
             applyPreset={applyPreset}
             onClear={handleClear} 
+            onExportSvg={handleExportSvg}
+            onExportPng={handleExportPng}
+            environment={environment}
+            onEnvironmentChange={setEnvironment}
+            autoFit={autoFit}
+            onAutoFitChange={setAutoFit}
+            vessel={selectedVessel}
+            onVesselChange={(vessel) => canvasRef.current?.reshapeVessel(vessel)}
+            onAddVessel={() => canvasRef.current?.addVessel()}
+            pace={pace}
+            onPaceChange={setPace}
+            onGrowInstantly={() => canvasRef.current?.growInstantly()}
+            reducedMotion={reducedMotion}
         />
       </div>
 
@@ -294,51 +227,102 @@ const App: React.FC = () => {
             settings={settings} 
             clearTrigger={clearTrigger} 
             onSettingsCopied={handleSettingsCopied}
+            onPlantExported={handlePlantExported}
+            onHistoryChange={setHistory}
+            pickingParents={breedingParents !== null}
+            onParentPicked={handleParentPicked}
+            environment={environment}
+            onEnvironmentChange={setEnvironment}
+            autoFit={autoFit}
+            onVesselSelected={setSelectedVessel}
+            onPlantSelected={(plant, vessel, transform) => setSelectedPlant(plant ? { plant, vessel, transform: transform ?? { scale: 1, mirrored: false } } : null)}
+            pace={pace}
+            reducedMotion={reducedMotion}
         />
 
+        {/* Inspector for the selected bottle plant */}
+        {selectedPlant && (
+            <div className="absolute top-32 right-8 z-30">
+                <PlantInspector
+                    key={selectedPlant.plant.id}
+                    plant={selectedPlant.plant}
+                    transform={selectedPlant.transform}
+                    onChange={(plantSettings) => canvasRef.current?.editPlant(selectedPlant.plant.id, plantSettings)}
+                    onTransformChange={(changes) => canvasRef.current?.transformPlant(selectedPlant.plant.id, changes)}
+                    onReorder={(direction) => canvasRef.current?.reorderPlant(selectedPlant.plant.id, direction)}
+                    onDelete={() => canvasRef.current?.deletePlant(selectedPlant.plant.id)}
+                    onDuplicate={() => canvasRef.current?.duplicatePlant(selectedPlant.plant.id)}
+                    onCopyDna={() => handleSettingsCopied(selectedPlant.plant.settings, selectedPlant.plant.seed, selectedPlant.vessel)}
+                    onClose={() => canvasRef.current?.deselectPlant()}
+                />
+            </div>
+        )}
+
         {/* UI Overlay: Title */}
         <div className="absolute top-8 w-full text-center pointer-events-none z-30">
             <h1 className="text-3xl md:text-5xl font-serif text-slate-800 tracking-tight drop-shadow-sm opacity-90">
             The Sketch Garden
             </h1>
             <p className="text-slate-500 mt-2 font-medium text-sm">
-            Paste DNA below to grow inside the bottle. Double-click to plant.
+            Paste DNA below to grow inside the selected vessel. Double-click to plant, click a plant to inspect it.
             </p>
         </div>
 
-        {/* Spacer to push bottle down */}
+        {/* Spacer to push the DNA input down; the garden places its first vessel just above it */}
         <div className="flex-1 min-h-[30vh]"></div>
 
-        {/* Glass Bottle Visual - Moved down significantly via flex spacer above */}
-        <div 
-            ref={bottleRef}
-            className="relative z-20 w-80 h-[280px] border-x-2 border-b-2 border-slate-300/60 bg-white/10 backdrop-blur-[2px] rounded-none shadow-xl pointer-events-none mb-4"
-        >
-             {/* Rim */}
-             <div className="absolute top-0 w-full h-1 bg-slate-300/40"></div>
-             {/* Glass Reflections */}
-             <div className="absolute top-4 right-8 w-px h-32 bg-white/30 blur-[1px]"></div>
-             <div className="absolute top-8 right-6 w-2 h-16 bg-white/10 rounded-full blur-sm"></div>
-        </div>
-
         {/* DNA Input Area & Undo Button */}
-        <div className="relative z-30 w-80 flex gap-2 mb-20">
+        <div className="relative z-30 w-80 mb-20">
+          <div className="flex gap-2">
             <input 
                 type="text"
                 value={importString}
                 onChange={(e) => handleImport(e.target.value)}
                 placeholder="Paste DNA..."
-                className="flex-1 px-4 py-3 bg-white/80 backdrop-blur-md border border-slate-200 rounded-lg shadow-sm text-center font-mono text-xs focus:outline-none focus:ring-2 focus:ring-slate-300 transition-all placeholder:text-slate-400"
+                aria-invalid={importError !== null}
+                className={`flex-1 px-4 py-3 bg-white/80 backdrop-blur-md border rounded-lg shadow-sm text-center font-mono text-xs focus:outline-none focus:ring-2 transition-all placeholder:text-slate-400
+                    ${importError ? 'border-rose-300 focus:ring-rose-200' : 'border-slate-200 focus:ring-slate-300'}`}
             />
             <button
                 onClick={handleUndo}
-                className="bg-white/80 backdrop-blur-md border border-slate-200 rounded-lg px-3 text-slate-500 hover:text-slate-800 hover:bg-white transition-colors"
-                title="Undo last bottle plant"
+                disabled={!history.canUndo}
+                className="bg-white/80 backdrop-blur-md border border-slate-200 rounded-lg px-3 text-slate-500 hover:text-slate-800 hover:bg-white transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                title="Undo (Ctrl+Z)"
             >
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
                     <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
                 </svg>
             </button>
+            <button
+                onClick={handleRedo}
+                disabled={!history.canRedo}
+                className="bg-white/80 backdrop-blur-md border border-slate-200 rounded-lg px-3 text-slate-500 hover:text-slate-800 hover:bg-white transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                title="Redo (Ctrl+Shift+Z)"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 -scale-x-100" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
+                </svg>
+            </button>
+          </div>
+          {importError && (
+              <p className="mt-2 text-xs text-rose-500 text-center" role="alert">{importError}</p>
+          )}
+          {breedingParents ? (
+              <BreedingPanel
+                  parents={breedingParents}
+                  mutationRate={mutationRate}
+                  onMutationRateChange={setMutationRate}
+                  onBreed={handleBreed}
+                  onClose={() => setBreedingParents(null)}
+              />
+          ) : (
+              <button
+                  onClick={() => setBreedingParents([])}
+                  className="mt-3 w-full text-xs text-slate-500 hover:text-slate-800 transition-colors"
+              >
+                  Cross-pollinate two plants…
+              </button>
+          )}
         </div>
 
       </div>
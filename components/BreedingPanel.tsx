@@ -0,0 +1,67 @@
+import React from 'react';
+import { PlantSummary } from '../types';
+import { getSpecies } from '../species';
+
+interface BreedingPanelProps {
+  parents: PlantSummary[];
+  mutationRate: number;
+  onMutationRateChange: (rate: number) => void;
+  onBreed: () => void;
+  onClose: () => void;
+}
+
+const ParentChip: React.FC<{ plant?: PlantSummary; label: string }> = ({ plant, label }) => (
+    <div className={`flex-1 flex items-center gap-2 px-3 py-2 rounded-lg border text-xs ${plant ? 'bg-white border-slate-200 text-slate-600' : 'border-dashed border-slate-300 text-slate-400'}`}>
+        {plant ? (
+            <>
+                <span className="flex -space-x-1">
+                    {[plant.settings.stemColorEnd, plant.settings.leafColorEnd, plant.settings.flowerColorStart].map((color, i) => (
+                        <span key={i} className="w-3 h-3 rounded-full border border-white" style={{ backgroundColor: color }} />
+                    ))}
+                </span>
+                <span className="font-medium">{getSpecies(plant.settings.type).label}</span>
+                <span className="font-mono text-slate-400">#{plant.id.slice(0, 4)}</span>
+            </>
+        ) : label}
+    </div>
+);
+
+const BreedingPanel: React.FC<BreedingPanelProps> = ({ parents, mutationRate, onMutationRateChange, onBreed, onClose }) => (
+    <div className="mt-3 p-3 bg-white/80 backdrop-blur-md border border-slate-200 rounded-lg shadow-sm space-y-3">
+        <div className="flex justify-between items-center">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Cross-pollinate</span>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-xs" title="Stop breeding">Done</button>
+        </div>
+        <p className="text-xs text-slate-500">Right-click or long-press two plants to pick them as parents.</p>
+        <div className="flex gap-2">
+            <ParentChip plant={parents[0]} label="First parent" />
+            <span className="self-center text-slate-300">×</span>
+            <ParentChip plant={parents[1]} label="Second parent" />
+        </div>
+        <div className="flex flex-col">
+            <div className="flex justify-between text-xs text-slate-500 mb-1 font-medium">
+                <span>Mutation</span>
+                <span>{Math.round(mutationRate * 100)}%</span>
+            </div>
+            <input
+                type="range"
+                min={0}
+                max={0.5}
+                step={0.01}
+                value={mutationRate}
+                onChange={(e) => onMutationRateChange(parseFloat(e.target.value))}
+                className="w-full h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-slate-600"
+            />
+        </div>
+        <button
+            onClick={onBreed}
+            disabled={parents.length < 2}
+            className="w-full bg-slate-800 hover:bg-slate-700 text-white py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-40 disabled:pointer-events-none"
+            title="Each press plants another sibling"
+        >
+            Plant offspring in bottle
+        </button>
+    </div>
+);
+
+export default BreedingPanel;
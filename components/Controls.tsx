@@ -1,11 +1,36 @@
-import React from 'react';
-import { PlantSettings, PlantType } from '../types';
+import React, { useEffect, useState } from 'react';
+import { Environment, GrowthPace, PlantSettings, PngExportSize, Sensitivity, SpeciesId, Vessel, VesselShape } from '../types';
+import PlantPreview from './PlantPreview';
+import PresetLibrary from './PresetLibrary';
+import { getSpecies, listSpecies } from '../species';
+import { parseRules } from '../utils/lsystem';
+import { CROWN_SHAPES, CrownShape } from '../utils/crown';
+import { mutateSettings, MutationStrengths } from '../utils/breeding';
+import { renderThumbnail } from '../utils/thumbnail';
+import { randomSeed } from '../utils/random';
+import { DEFAULT_LIGHT, getSensitivity } from '../utils/environment';
+import { GROWTH_SPEEDS } from '../utils/simulationClock';
+import { GENES, GeneSpec } from '../utils/genes';
+import { checkVesselPath, VESSEL_HEIGHT, VESSEL_PRESETS, VESSEL_SHAPES, VESSEL_WIDTH } from '../utils/vessel';
 
 interface ControlsProps {
   settings: PlantSettings;
   updateSettings: (newSettings: Partial<PlantSettings>) => void;
-  applyPreset: (type: PlantType) => void;
+  applyPreset: (type: SpeciesId) => void;
   onClear: () => void;
+  onExportSvg: () => void;
+  onExportPng: (size: PngExportSize) => void;
+  environment: Environment;
+  onEnvironmentChange: (environment: Environment) => void;
+  autoFit: boolean;
+  onAutoFitChange: (autoFit: boolean) => void;
+  vessel: Vessel | null; // The selected vessel's shape; null while none is selected
+  onVesselChange: (vessel: Vessel) => void;
+  onAddVessel: () => void;
+  pace: GrowthPace;
+  onPaceChange: (pace: GrowthPace) => void;
+  onGrowInstantly: () => void;
+  reducedMotion: boolean; // The user prefers reduced motion, so plants finish growing at once anyway
   // removed onImport from props here, as it moved to main view
 }
 
@@ -29,7 +54,7 @@ const Slider: React.FC<{
   <div className="flex flex-col">
     <div className="flex justify-between text-xs text-slate-500 mb-1 font-medium">
       <span>{label}</span>
-      <span>{value.toFixed(step < 0.1 ? 2 : 1)}</span>
+      <span>{value.toFixed(step < 0.01 ? 3 : step < 0.1 ? 2 : 1)}</span>
     </div>
     <input
       type="range"
@@ -68,26 +93,361 @@ const DualColorPicker: React.FC<{ label: string; start: string; end: string; onS
     </div>
 );
 
-const Controls: React.FC<ControlsProps> = ({ settings, updateSettings, applyPreset, onClear }) => {
+const GrammarControls: React.FC<{ settings: PlantSettings; updateSettings: (newSettings: Partial<PlantSettings>) => void }> = ({ settings, updateSettings }) => {
+  const { problems } = parseRules(settings.lsystemRules);
+  return (
+    <ControlGroup title="Grammar">
+        <div className="flex flex-col gap-1">
+            <span className="text-xs text-slate-500 font-medium">Axiom</span>
+            <input
+                type="text"
+                maxLength={64}
+                value={settings.lsystemAxiom}
+                onChange={(e) => updateSettings({ lsystemAxiom: e.target.value })}
+                className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-mono text-slate-600 focus:outline-none"
+                spellCheck={false}
+            />
+        </div>
+        <div className="flex flex-col gap-1">
+            <span className="text-xs text-slate-500 font-medium">Rules</span>
+            <textarea
+                rows={3}
+                maxLength={512}
+                value={settings.lsystemRules}
+                onChange={(e) => updateSettings({ lsystemRules: e.target.value })}
+                className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-mono text-slate-600 focus:outline-none resize-none"
+                title="One rule per line or separated by semicolons, e.g. F=F[+F]F[-F]F. F draws, + and - turn, [ and ] branch."
+                spellCheck={false}
+            />
+            {problems.length > 0 && <span role="alert" className="text-[11px] text-rose-500">{problems[0]}</span>}
+        </div>
+        <Slider label="Iterations" value={settings.lsystemIterations} min={0} max={7} step={1} onChange={(v) => updateSettings({ lsystemIterations: v })} />
+        <Slider label="Angle" value={settings.lsystemAngle} min={5} max={90} step={1} onChange={(v) => updateSettings({ lsystemAngle: v })} />
+    </ControlGroup>
+  );
+};
+
+const CrownControls: React.FC<{ settings: PlantSettings; updateSettings: (newSettings: Partial<PlantSettings>) => void }> = ({ settings, updateSettings }) => (
+    <ControlGroup title="Crown">
+        <div className="flex justify-between items-center text-xs text-slate-500 font-medium">
+            <span>Shape</span>
+            <select
+                value={settings.crownShape}
+                onChange={(e) => updateSettings({ crownShape: e.target.value as CrownShape })}
+                className="bg-slate-50 border border-slate-200 rounded-xl px-2 py-1 text-xs text-slate-600 capitalize focus:outline-none"
+            >
+                {CROWN_SHAPES.map(shape => <option key={shape} value={shape}>{shape}</option>)}
+            </select>
+        </div>
+        <Slider label="Attractor Density" value={settings.attractorDensity} min={1} max={30} step={0.5} onChange={(v) => updateSettings({ attractorDensity: v })} />
+        <Slider label="Kill Distance" value={settings.killDistance} min={3} max={40} step={1} onChange={(v) => updateSettings({ killDistance: v })} />
+        <Slider label="Segment Length" value={settings.segmentLength} min={2} max={15} step={0.5} onChange={(v) => updateSettings({ segmentLength: v })} />
+    </ControlGroup>
+);
+
+// Range of a gene as validated, so a slider can show any value that imported DNA may carry
+const geneRange = (key: GeneSpec['key']) => {
+  const gene = GENES.find(g => g.key === key);
+  return { min: gene?.min ?? 0, max: gene?.max ?? 1 };
+};
+
+// How wandering stems fork and steer; species that grow to a plan of their own do not show it
+const BranchingControls: React.FC<{ settings: PlantSettings; updateSettings: (newSettings: Partial<PlantSettings>) => void }> = ({ settings, updateSettings }) => {
+  const angle = geneRange('branchAngleOffset');
+  return (
+    <ControlGroup title="Branching">
+        <Slider label="Branch Chance" value={settings.branchChance} {...geneRange('branchChance')} step={0.002} onChange={(v) => updateSettings({ branchChance: v })} />
+        <Slider label="Branch Angle (°)" value={settings.branchAngleOffset * 180 / Math.PI} min={angle.min * 180 / Math.PI} max={angle.max * 180 / Math.PI} step={1} onChange={(v) => updateSettings({ branchAngleOffset: v * Math.PI / 180 })} />
+        <Slider label="Generations" value={settings.branchGenerations} {...geneRange('branchGenerations')} step={1} onChange={(v) => updateSettings({ branchGenerations: v })} />
+        <Slider label="Branch Shortening" value={settings.branchShortening} {...geneRange('branchShortening')} step={0.1} onChange={(v) => updateSettings({ branchShortening: v })} />
+        <Slider label="Branch Thinning" value={settings.branchThinning} {...geneRange('branchThinning')} step={0.1} onChange={(v) => updateSettings({ branchThinning: v })} />
+        <Slider label="Linger" value={settings.linger} {...geneRange('linger')} step={1} onChange={(v) => updateSettings({ linger: v })} />
+        <Slider label="Noise Scale" value={settings.noiseScale} {...geneRange('noiseScale')} step={0.001} onChange={(v) => updateSettings({ noiseScale: v })} />
+        <Slider label="Noise Drift" value={settings.noiseDrift} {...geneRange('noiseDrift')} step={0.01} onChange={(v) => updateSettings({ noiseDrift: v })} />
+    </ControlGroup>
+  );
+};
+
+const EnvironmentControls: React.FC<{ environment: Environment; onChange: (environment: Environment) => void; type: SpeciesId }> = ({ environment, onChange, type }) => {
+  const species = getSpecies(type);
+  const sensitivity = getSensitivity(environment, type);
+  const update = (changes: Partial<Environment>) => onChange({ ...environment, ...changes });
+  // Overrides are kept per species, starting from the species' own defaults
+  const updateSensitivity = (changes: Partial<Sensitivity>) =>
+      update({ sensitivity: { ...environment.sensitivity, [type]: { ...sensitivity, ...changes } } });
+
+  return (
+    <ControlGroup title="Environment">
+        <Slider label="Wind" value={environment.windStrength} min={0} max={1} step={0.05} onChange={(v) => update({ windStrength: v })} />
+        <Slider label="Wind Direction (°)" value={environment.windDirection} min={0} max={360} step={5} onChange={(v) => update({ windDirection: v })} />
+        <Slider label="Gravity" value={environment.gravity} min={0} max={1} step={0.05} onChange={(v) => update({ gravity: v })} />
+        <label className="flex justify-between items-center text-xs text-slate-500 font-medium cursor-pointer">
+            <span>Light Source</span>
+            <input
+                type="checkbox"
+                checked={environment.light !== null}
+                onChange={(e) => update({ light: e.target.checked ? DEFAULT_LIGHT : null })}
+                className="accent-slate-600"
+            />
+        </label>
+        {environment.light && (
+            <Slider label="Light Strength" value={environment.lightStrength} min={0} max={1} step={0.05} onChange={(v) => update({ lightStrength: v })} />
+        )}
+        {species.sensitivity ? (
+            <>
+                <span className="block text-xs text-slate-400 font-medium">{species.label} sensitivity</span>
+                <Slider label="To Wind" value={sensitivity.wind} min={0} max={2} step={0.05} onChange={(v) => updateSensitivity({ wind: v })} />
+                <Slider label="To Light" value={sensitivity.light} min={0} max={2} step={0.05} onChange={(v) => updateSensitivity({ light: v })} />
+                <Slider label="To Gravity" value={sensitivity.gravity} min={0} max={2} step={0.05} onChange={(v) => updateSensitivity({ gravity: v })} />
+            </>
+        ) : (
+            <p className="text-xs text-slate-400">{species.label} plants grow to their own plan and are not affected.</p>
+        )}
+    </ControlGroup>
+  );
+};
+
+const GrowthControls: React.FC<{ pace: GrowthPace; onChange: (pace: GrowthPace) => void; onGrowInstantly: () => void; reducedMotion: boolean }> = ({ pace, onChange, onGrowInstantly, reducedMotion }) => (
+    <ControlGroup title="Growth">
+        <div className="flex gap-2">
+            <button
+                onClick={() => onChange({ ...pace, playing: !pace.playing })}
+                className="flex-1 bg-slate-50 hover:bg-slate-100 text-slate-600 py-2 rounded-xl text-xs font-medium transition-colors border border-slate-200 shadow-sm"
+                aria-pressed={!pace.playing}
+            >
+                {pace.playing ? 'Pause' : 'Play'}
+            </button>
+            <select
+                value={String(pace.speed)}
+                onChange={(e) => onChange({ ...pace, speed: parseFloat(e.target.value) })}
+                disabled={reducedMotion}
+                className="bg-slate-50 border border-slate-200 rounded-xl px-2 text-xs text-slate-600 focus:outline-none disabled:opacity-40"
+                title="Growth speed"
+            >
+                {GROWTH_SPEEDS.map(speed => <option key={speed} value={String(speed)}>{speed}x</option>)}
+            </select>
+        </div>
+        <button
+            onClick={onGrowInstantly}
+            className="w-full bg-slate-50 hover:bg-slate-100 text-slate-600 py-2 rounded-xl text-xs font-medium transition-colors border border-slate-200 shadow-sm"
+        >
+            Grow instantly
+        </button>
+        {reducedMotion && (
+            <p className="text-xs text-slate-400">Your system asks for reduced motion, so plants finish growing as soon as they are planted.</p>
+        )}
+    </ControlGroup>
+);
+
+const VesselShapeEditor: React.FC<{ vessel: Vessel; onChange: (vessel: Vessel) => void }> = ({ vessel, onChange }) => {
+  // A custom outline is only handed on once it parses; until then the draft stays here
+  const [draft, setDraft] = useState(vessel.path);
+  useEffect(() => setDraft(vessel.path), [vessel.path]);
+  const problem = vessel.shape === 'custom' ? checkVesselPath(draft) : null;
+
+  const chooseShape = (shape: VesselShape) => {
+      onChange(shape === 'custom' ? { shape, path: vessel.path } : { shape, path: VESSEL_PRESETS[shape].path });
+  };
+
+  const editPath = (path: string) => {
+      setDraft(path);
+      if (!checkVesselPath(path)) onChange({ shape: 'custom', path });
+  };
+
+  return (
+    <>
+        <div className="flex justify-between items-center text-xs text-slate-500 font-medium">
+            <span>Shape</span>
+            <select
+                value={vessel.shape}
+                onChange={(e) => chooseShape(e.target.value as VesselShape)}
+                className="bg-slate-50 border border-slate-200 rounded-xl px-2 py-1 text-xs text-slate-600 capitalize focus:outline-none"
+            >
+                {VESSEL_SHAPES.map(shape => <option key={shape} value={shape}>{shape === 'custom' ? 'Custom' : VESSEL_PRESETS[shape].label}</option>)}
+            </select>
+        </div>
+        {vessel.shape === 'custom' && (
+            <div className="flex flex-col gap-1">
+                <span className="text-xs text-slate-500 font-medium">Outline (SVG path)</span>
+                <textarea
+                    rows={3}
+                    value={draft}
+                    onChange={(e) => editPath(e.target.value)}
+                    className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-mono text-slate-600 focus:outline-none resize-none"
+                    title={`One closed shape within 0 0 ${VESSEL_WIDTH} ${VESSEL_HEIGHT}, e.g. M0 0 V280 H320 V0 Z`}
+                    spellCheck={false}
+                />
+                {problem && <span role="alert" className="text-[11px] text-rose-500">{problem}</span>}
+            </div>
+        )}
+    </>
+  );
+};
+
+// Shape of the selected vessel, adding vessels, and how plants are fitted into them
+const VesselControls: React.FC<{ vessel: Vessel | null; onChange: (vessel: Vessel) => void; onAdd: () => void; autoFit: boolean; onAutoFitChange: (autoFit: boolean) => void }> = ({ vessel, onChange, onAdd, autoFit, onAutoFitChange }) => {
+  return (
+    <ControlGroup title="Vessel">
+        {vessel ? (
+            <VesselShapeEditor vessel={vessel} onChange={onChange} />
+        ) : (
+            <p className="text-xs text-slate-400">Click a vessel to change its shape. Pasted DNA and offspring go into the selected vessel.</p>
+        )}
+        <button
+            onClick={onAdd}
+            className="w-full bg-slate-50 hover:bg-slate-100 text-slate-600 py-2 rounded-xl text-xs font-medium transition-colors border border-slate-200 shadow-sm"
+        >
+            Add vessel
+        </button>
+        <label className="flex justify-between items-center text-xs text-slate-500 font-medium cursor-pointer">
+            <span>Fit new plants to the vessel</span>
+            <input
+                type="checkbox"
+                checked={autoFit}
+                onChange={(e) => onAutoFitChange(e.target.checked)}
+                className="accent-slate-600"
+            />
+        </label>
+        <p className="text-xs text-slate-400">Shrinks height, thickness, leaves and blooms so a plant stays under the top of the glass.</p>
+    </ControlGroup>
+  );
+};
+
+const VARIANT_COUNT = 12;
+const THUMBNAIL_SIZE = 80;
+
+interface Variant {
+  settings: PlantSettings;
+  seed: number;
+  thumbnail?: string; // Data URL, filled in once it has been grown
+}
+
+const VariantGallery: React.FC<{ settings: PlantSettings; updateSettings: (newSettings: Partial<PlantSettings>) => void }> = ({ settings, updateSettings }) => {
+  const [strengths, setStrengths] = useState<MutationStrengths>({ stem: 0.3, foliage: 0.3, bloom: 0.3 });
+  const [variants, setVariants] = useState<Variant[]>([]);
+  const [chosen, setChosen] = useState<number | null>(null);
+
+  // Every new set is mutated from the current settings, i.e. around the variant adopted last
+  const mutate = () => {
+      setChosen(null);
+      setVariants(Array.from({ length: VARIANT_COUNT }, () => ({ settings: mutateSettings(settings, strengths), seed: randomSeed() })));
+  };
+
+  // Thumbnails are grown one per frame so a new set never freezes the sidebar
+  useEffect(() => {
+      const pending = variants.findIndex(v => v.thumbnail === undefined);
+      if (pending < 0) return;
+      const frame = requestAnimationFrame(() => {
+          const thumbnail = renderThumbnail(variants[pending].settings, variants[pending].seed, THUMBNAIL_SIZE);
+          setVariants(prev => prev === variants ? prev.map((v, i) => i === pending ? { ...v, thumbnail } : v) : prev);
+      });
+      return () => cancelAnimationFrame(frame);
+  }, [variants]);
+
+  const adopt = (index: number) => {
+      setChosen(index);
+      updateSettings(variants[index].settings);
+  };
+
+  return (
+    <ControlGroup title="Variants">
+        <Slider label="Stem Mutation" value={strengths.stem} min={0} max={1} step={0.05} onChange={(v) => setStrengths(prev => ({ ...prev, stem: v }))} />
+        <Slider label="Foliage Mutation" value={strengths.foliage} min={0} max={1} step={0.05} onChange={(v) => setStrengths(prev => ({ ...prev, foliage: v }))} />
+        <Slider label="Bloom Mutation" value={strengths.bloom} min={0} max={1} step={0.05} onChange={(v) => setStrengths(prev => ({ ...prev, bloom: v }))} />
+        {variants.length > 0 && (
+            <div className="grid grid-cols-3 gap-2">
+                {variants.map((variant, i) => (
+                    <button
+                        key={i}
+                        onClick={() => adopt(i)}
+                        className={`aspect-square rounded-lg border bg-[#fdfbf7] overflow-hidden transition-all hover:border-slate-400
+                            ${chosen === i ? 'border-slate-600 ring-2 ring-slate-300' : 'border-slate-200'}`}
+                        title="Use these settings"
+                    >
+                        {variant.thumbnail
+                            ? <img src={variant.thumbnail} alt={`Variant ${i + 1}`} className="w-full h-full object-contain" draggable={false} />
+                            : <span className="block w-full h-full animate-pulse bg-slate-100" />}
+                    </button>
+                ))}
+            </div>
+        )}
+        <button
+            onClick={mutate}
+            className="w-full bg-slate-50 hover:bg-slate-100 text-slate-600 py-2 rounded-xl text-sm font-medium transition-colors border border-slate-200 shadow-sm"
+        >
+            {variants.length > 0 ? 'Mutate Again' : 'Show Variants'}
+        </button>
+    </ControlGroup>
+  );
+};
+
+const PNG_SCALES = [1, 2, 4];
+
+const PngExport: React.FC<{ onExport: (size: PngExportSize) => void }> = ({ onExport }) => {
+  const [choice, setChoice] = useState('2');
+  const [customWidth, setCustomWidth] = useState(4000);
+
+  return (
+    <div className="flex gap-2">
+        <select
+            value={choice}
+            onChange={(e) => setChoice(e.target.value)}
+            className="bg-slate-50 border border-slate-200 rounded-xl px-2 text-xs text-slate-600 focus:outline-none"
+            title="Export resolution"
+        >
+            {PNG_SCALES.map(scale => <option key={scale} value={String(scale)}>{scale}x</option>)}
+            <option value="custom">Width…</option>
+        </select>
+        {choice === 'custom' && (
+            <input
+                type="number"
+                min={100}
+                max={16384}
+                step={100}
+                value={customWidth}
+                onChange={(e) => setCustomWidth(parseInt(e.target.value, 10) || 0)}
+                className="w-20 bg-slate-50 border border-slate-200 rounded-xl px-2 text-xs text-slate-600 focus:outline-none"
+                title="Width in pixels"
+            />
+        )}
+        <button
+            onClick={() => onExport(choice === 'custom' ? { width: Math.max(100, customWidth) } : { scale: parseFloat(choice) })}
+            className="flex-1 bg-slate-50 hover:bg-slate-100 text-slate-600 py-3 rounded-xl text-sm font-medium transition-colors border border-slate-200 shadow-sm"
+        >
+            Export PNG
+        </button>
+    </div>
+  );
+};
+
+const Controls: React.FC<ControlsProps> = ({ settings, updateSettings, applyPreset, onClear, onExportSvg, onExportPng, environment, onEnvironmentChange, autoFit, onAutoFitChange, vessel, onVesselChange, onAddVessel, pace, onPaceChange, onGrowInstantly, reducedMotion }) => {
+  const extraGenes = getSpecies(settings.type).extraGenes ?? [];
   return (
     <div className="w-80 h-full bg-white/90 border-r border-slate-200 p-6 overflow-y-auto scrollbar-hide shadow-lg flex flex-col z-20">
       <div className="flex justify-between items-center mb-6 border-b border-slate-100 pb-4">
         <h2 className="text-slate-700 font-serif text-lg tracking-wide">Garden Tools</h2>
       </div>
 
+      <PlantPreview settings={settings} />
+
       <div className="mb-6 bg-slate-100 p-1 rounded-xl flex flex-wrap gap-1">
-        {[PlantType.VINE, PlantType.PALM, PlantType.GEOMETRIC, PlantType.UMBRELLA, PlantType.BERRY, PlantType.CLUSTER].map((t) => (
+        {listSpecies().map(({ id, label }) => (
             <button
-                key={t}
-                onClick={() => applyPreset(t)}
+                key={id}
+                onClick={() => applyPreset(id)}
                 className={`flex-1 py-2 text-[10px] md:text-xs font-bold rounded-lg transition-all uppercase tracking-wide min-w-[30%]
-                    ${settings.type === t ? 'bg-white shadow-sm text-slate-800' : 'text-slate-400 hover:text-slate-600'}`}
+                    ${settings.type === id ? 'bg-white shadow-sm text-slate-800' : 'text-slate-400 hover:text-slate-600'}`}
             >
-                {t}
+                {label}
             </button>
         ))}
       </div>
 
+      <PresetLibrary settings={settings} onApply={updateSettings} />
+
+      {extraGenes.includes('grammar') && <GrammarControls settings={settings} updateSettings={updateSettings} />}
+      {extraGenes.includes('crown') && <CrownControls settings={settings} updateSettings={updateSettings} />}
+
       <ControlGroup title="Stem Genetics">
         <DualColorPicker 
             label="Stem Gradient" 
@@ -102,6 +462,8 @@ const Controls: React.FC<ControlsProps> = ({ settings, updateSettings, applyPres
         <Slider label="Thickness" value={settings.baseWidth} min={1} max={15} step={0.5} onChange={(v) => updateSettings({ baseWidth: v })} />
       </ControlGroup>
 
+      {extraGenes.includes('branching') && <BranchingControls settings={settings} updateSettings={updateSettings} />}
+
       <ControlGroup title="Foliage">
         <DualColorPicker 
             label="Leaf Gradient" 
@@ -127,7 +489,23 @@ const Controls: React.FC<ControlsProps> = ({ settings, updateSettings, applyPres
         <Slider label="Count" value={settings.petalCount} min={3} max={16} step={1} onChange={(v) => updateSettings({ petalCount: v })} />
       </ControlGroup>
 
-      <div className="pt-4 mt-6 border-t border-slate-100">
+      <EnvironmentControls environment={environment} onChange={onEnvironmentChange} type={settings.type} />
+
+      <GrowthControls pace={pace} onChange={onPaceChange} onGrowInstantly={onGrowInstantly} reducedMotion={reducedMotion} />
+
+      <VesselControls vessel={vessel} onChange={onVesselChange} onAdd={onAddVessel} autoFit={autoFit} onAutoFitChange={onAutoFitChange} />
+
+      <VariantGallery settings={settings} updateSettings={updateSettings} />
+
+      <div className="pt-4 mt-6 border-t border-slate-100 space-y-2">
+        <button
+            onClick={onExportSvg}
+            className="w-full bg-slate-50 hover:bg-slate-100 text-slate-600 py-3 rounded-xl text-sm font-medium transition-colors border border-slate-200 shadow-sm"
+            title="Download the garden as layered SVG (Shift + right-click a plant to export just that plant)"
+        >
+            Export SVG
+        </button>
+        <PngExport onExport={onExportPng} />
         <button
             onClick={onClear}
             className="w-full bg-rose-50 hover:bg-rose-100 text-rose-500 py-3 rounded-xl text-sm font-medium transition-colors border border-rose-100 shadow-sm"
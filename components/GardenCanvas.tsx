@@ -1,577 +1,258 @@
-import React, { useRef, useEffect, useCallback, useState, useImperativeHandle, forwardRef } from 'react';
-import { noiseGenerator } from '../utils/noise';
-import { Grower, PlantSettings, PlantType, GardenCanvasRef } from '../types';
+import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef } from 'react';
+import { gardenToSvg, plantToSvg } from '../utils/svgExport';
+import { gardenToPng } from '../utils/pngExport';
+import { VESSEL_HEIGHT, VESSEL_WIDTH } from '../utils/vessel';
+import { GardenHost, startGarden } from '../utils/gardenHost';
+import { GardenCalls, GardenEvent, GardenOptions, GardenSize, VesselHandle } from '../utils/gardenProtocol';
+import { Environment, GrowthPace, PlacedVessel, PlantSettings, PlantSummary, PlantTransform, Point, Rect, GardenCanvasRef, PngExportSize, Vessel } from '../types';
 
 interface GardenCanvasProps {
   settings: PlantSettings;
   clearTrigger: number;
-  onSettingsCopied: (settings: PlantSettings) => void;
+  onSettingsCopied: (settings: PlantSettings, seed: number, vessel?: Vessel) => void; // Bottle plants come with their vessel
+  onPlantExported: (svg: string) => void;
+  onHistoryChange: (state: { canUndo: boolean; canRedo: boolean }) => void; // Of the selected vessel, or of the garden when none is
+  pickingParents: boolean; // While breeding, right-click and long-press pick parents instead of copying DNA
+  onParentPicked: (plant: PlantSummary) => void;
+  environment: Environment;
+  onEnvironmentChange: (environment: Environment) => void; // Called when the light is dragged and when a saved environment is restored
+  autoFit: boolean; // Shrink new bottle plants so they fit under the rim
+  onVesselSelected: (vessel: Vessel | null) => void; // Shape of the selected vessel, or null when the garden outside is selected
+  onPlantSelected: (plant: PlantSummary | null, vessel?: Vessel, transform?: PlantTransform) => void; // The bottle plant clicked, or null
+  pace: GrowthPace;
+  reducedMotion: boolean; // Plants finish growing as soon as they are planted
 }
 
-interface BottlePlant {
-  id: string;
-  originX: number; // Where it was spawned (used for growing logic)
-  currentX: number; // Where it is currently displayed (dragged)
-  y: number;
-  canvas: HTMLCanvasElement;
-  ctx: CanvasRenderingContext2D;
-  settings: PlantSettings; // Keep settings for reference
-}
+// The glass of one vessel, stretched over its box
+const VesselGlass: React.FC<{ placed: PlacedVessel; highlighted: boolean }> = ({ placed, highlighted }) => (
+    <div className="absolute pointer-events-none" style={{ left: placed.x, top: placed.y, width: placed.width, height: placed.height, zIndex: 15 }}>
+        {/* Glass, tinted and blurred within the vessel's outline */}
+        <div
+            className="absolute top-0 left-0 origin-top-left bg-white/10 backdrop-blur-[2px]"
+            style={{
+                width: VESSEL_WIDTH,
+                height: VESSEL_HEIGHT,
+                transform: `scale(${placed.width / VESSEL_WIDTH}, ${placed.height / VESSEL_HEIGHT})`,
+                clipPath: `path('${placed.vessel.path}')`
+            }}
+        >
+            {/* Glass Reflections */}
+            <div className="absolute top-4 right-8 w-px h-32 bg-white/30 blur-[1px]"></div>
+            <div className="absolute top-8 right-6 w-2 h-16 bg-white/10 rounded-full blur-sm"></div>
+        </div>
+        <svg className="absolute inset-0 w-full h-full overflow-visible drop-shadow-xl" viewBox={`0 0 ${VESSEL_WIDTH} ${VESSEL_HEIGHT}`} preserveAspectRatio="none">
+            <path d={placed.vessel.path} fill="none" stroke={highlighted ? 'rgb(52 211 153 / 0.9)' : 'rgb(203 213 225 / 0.6)'} strokeWidth={highlighted ? 3 : 2} vectorEffect="non-scaling-stroke" />
+        </svg>
+    </div>
+);
 
-interface DragState {
-  plantId: string;
-  startX: number;
-  plantStartX: number;
-}
+const GardenCanvas = forwardRef<GardenCanvasRef, GardenCanvasProps>(({ settings, clearTrigger, onSettingsCopied, onPlantExported, onHistoryChange, pickingParents, onParentPicked, environment, onEnvironmentChange, autoFit, onVesselSelected, onPlantSelected, pace, reducedMotion }, ref) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  // The garden engine, in a worker when the browser allows; it owns both canvas layers
+  const hostRef = useRef<GardenHost | null>(null);
+  // Handles the engine's events with the latest props
+  const handleEventRef = useRef<(event: GardenEvent) => void>(() => {});
+  // What the engine is started with; later changes are sent to it as they happen
+  const optionsRef = useRef<GardenOptions>({ settings, environment, autoFit, pickingParents, pace, instant: reducedMotion });
 
-// Helper to interpolate between two hex colors
-const lerpColor = (start: string, end: string, t: number) => {
-    t = Math.max(0, Math.min(1, t));
-    const parse = (c: string) => {
-        const hex = c.replace('#', '');
-        return {
-            r: parseInt(hex.substring(0, 2), 16),
-            g: parseInt(hex.substring(2, 4), 16),
-            b: parseInt(hex.substring(4, 6), 16)
-        };
-    };
-    const s = parse(start);
-    const e = parse(end);
-    const r = Math.round(s.r + (e.r - s.r) * t);
-    const g = Math.round(s.g + (e.g - s.g) * t);
-    const b = Math.round(s.b + (e.b - s.b) * t);
-    return `rgb(${r}, ${g}, ${b})`;
-};
-
-// Track previously spawned plants for "Right Click to Copy"
-interface PlantHistoryItem {
-    x: number;
-    y: number;
-    settings: PlantSettings;
-    timestamp: number;
-}
+  const vesselDragRef = useRef<{ handle: VesselHandle; startX: number; startY: number } | null>(null);
 
-const GardenCanvas = forwardRef<GardenCanvasRef, GardenCanvasProps>(({ settings, clearTrigger, onSettingsCopied }, ref) => {
-  const containerRef = useRef<HTMLDivElement>(null);
-  
-  // Layer 1: The world outside
-  const canvasOutsideRef = useRef<HTMLCanvasElement>(null);
-  // Layer 2: The composite view of the bottle contents
-  const canvasInsideRef = useRef<HTMLCanvasElement>(null);
-
-  const growersRef = useRef<Grower[]>([]);
-  const bottlePlantsRef = useRef<BottlePlant[]>([]);
-  const requestRef = useRef<number>(0);
-  const plantHistoryRef = useRef<PlantHistoryItem[]>([]);
-  
-  const bottleRectRef = useRef<DOMRect | null>(null);
-  const dragStateRef = useRef<DragState | null>(null);
-  
   // Interaction Refs
   const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const pointerStartRef = useRef<{x: number, y: number} | null>(null);
 
-  const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
-
-  const uuid = () => Math.random().toString(36).substr(2, 9);
-
-  const createGrower = (x: number, y: number, plantSettings: PlantSettings, ctx: CanvasRenderingContext2D, generation = 0, initialAngle?: number): Grower => {
-    const baseAngle = -Math.PI / 2;
-    const startAngle = initialAngle ?? (baseAngle + (Math.random() * 0.2 - 0.1));
-
-    return {
-      id: uuid(),
-      x,
-      y,
-      angle: startAngle,
-      life: 0,
-      maxLife: plantSettings.maxLife / (generation + 1), 
-      width: plantSettings.baseWidth / (generation + 1),
-      speed: plantSettings.growthSpeed,
-      color: plantSettings.stemColorStart,
-      settings: plantSettings,
-      noiseOffset: Math.random() * 1000,
-      generation,
-      ctx
-    };
+  // What the glass overlays are drawn from, as last reported by the engine
+  const [vesselViews, setVesselViews] = useState<PlacedVessel[]>([]);
+  const vesselCountRef = useRef(0);
+  const [selectedVesselId, setSelectedVesselId] = useState<string | null>(null);
+  // Selected vessel and shape last passed to onVesselSelected
+  const reportedVesselRef = useRef<string | null>(null);
+  // Vessel a dragged plant would be dropped into
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  // Where the selected bottle plant is drawn, for its highlight
+  const [selectedPlantBox, setSelectedPlantBox] = useState<Rect | null>(null);
+  // Where the plant a right-click would copy is drawn, while the pointer rests on one
+  const [hoverBox, setHoverBox] = useState<Rect | null>(null);
+  // Selected plant and genes last passed to onPlantSelected
+  const reportedPlantRef = useRef<string | null>(null);
+  const selectedPlantRef = useRef<{ id: string; transform: PlantTransform } | null>(null);
+  // Pointers currently down on the garden, for pinching the selected plant with two fingers
+  const pointersRef = useRef(new Map<number, Point>());
+  const pinchRef = useRef<{ id: string; distance: number; scale: number } | null>(null);
+
+  handleEventRef.current = (event: GardenEvent) => {
+      switch (event.type) {
+          case 'history':
+              onHistoryChange({ canUndo: event.canUndo, canRedo: event.canRedo });
+              break;
+          case 'vessels': {
+              setVesselViews(event.vessels);
+              vesselCountRef.current = event.vessels.length;
+              setSelectedVesselId(event.selectedId);
+              setDropTargetId(event.dropTargetId);
+              const selected = event.vessels.find(v => v.id === event.selectedId);
+              const reported = selected ? `${selected.id} ${selected.vessel.shape} ${selected.vessel.path}` : null;
+              if (reported !== reportedVesselRef.current) {
+                  reportedVesselRef.current = reported;
+                  onVesselSelected(selected ? selected.vessel : null);
+              }
+              break;
+          }
+          case 'environmentRestored':
+              onEnvironmentChange(event.environment);
+              break;
+          case 'copied':
+              onSettingsCopied(event.settings, event.seed, event.vessel);
+              break;
+          case 'parentPicked':
+              onParentPicked(event.plant);
+              break;
+          case 'plantExported':
+              onPlantExported(plantToSvg(event.scene));
+              break;
+          case 'hover':
+              setHoverBox(event.box);
+              break;
+          case 'plantSelection': {
+              setSelectedPlantBox(event.box);
+              // Growing and dragging only move the highlight
+              selectedPlantRef.current = event.plant && event.transform ? { id: event.plant.id, transform: event.transform } : null;
+              const reported = event.plant ? JSON.stringify([event.plant, event.vessel, event.transform]) : null;
+              if (reported !== reportedPlantRef.current) {
+                  reportedPlantRef.current = reported;
+                  onPlantSelected(event.plant, event.vessel, event.transform);
+              }
+              break;
+          }
+      }
   };
 
-  const spawnPlant = (x: number, y: number, overrideSettings?: PlantSettings, isInsideBottle: boolean = false) => {
-    const s = overrideSettings || settings;
-
-    // Save to history (for copying)
-    plantHistoryRef.current.push({
-        x, y, settings: { ...s }, timestamp: Date.now()
-    });
-    if (plantHistoryRef.current.length > 50) plantHistoryRef.current.shift();
-
-    if (isInsideBottle) {
-        // Create an offscreen canvas for this plant
-        const offCanvas = document.createElement('canvas');
-        offCanvas.width = dimensions.width;
-        offCanvas.height = dimensions.height;
-        const offCtx = offCanvas.getContext('2d');
-        
-        if (offCtx) {
-            const plantId = uuid();
-            const newBottlePlant: BottlePlant = {
-                id: plantId,
-                originX: x,
-                currentX: x,
-                y: y,
-                canvas: offCanvas,
-                ctx: offCtx,
-                settings: s
-            };
-            
-            bottlePlantsRef.current.push(newBottlePlant);
-            growersRef.current.push(createGrower(x, y, s, offCtx));
-        }
-    } else {
-        // Spawn on the outside canvas
-        const ctx = canvasOutsideRef.current?.getContext('2d');
-        if (ctx) {
-            growersRef.current.push(createGrower(x, y, s, ctx));
-        }
-    }
-  };
+  const send = (request: Parameters<GardenHost['send']>[0]) => hostRef.current?.send(request);
 
-  const undoLastBottlePlant = () => {
-      const popped = bottlePlantsRef.current.pop();
-      // Also need to remove any active growers associated with this plant's context to stop them
-      if (popped) {
-          growersRef.current = growersRef.current.filter(g => g.ctx !== popped.ctx);
-      }
-  };
+  // Asks the engine for something; before it has started there is nothing to ask
+  const call = <K extends keyof GardenCalls>(type: K): Promise<GardenCalls[K]> =>
+      hostRef.current ? hostRef.current.call(type) : Promise.reject(new Error('The garden has not started'));
 
   useImperativeHandle(ref, () => ({
-    spawn: (x: number, y: number, overrideSettings?: PlantSettings, isInsideBottle?: boolean) => {
-      spawnPlant(x, y, overrideSettings, isInsideBottle);
-    },
-    undo: () => {
-        undoLastBottlePlant();
+    plantInVessel: (plantSettings: PlantSettings, seed: number, parents?: string[], dnaVessel?: Vessel) => {
+      if (vesselCountRef.current === 0) return false;
+      send({ type: 'plantInVessel', settings: plantSettings, seed, parents, vessel: dnaVessel });
+      return true;
     },
-    updateBottleRect: (rect: DOMRect) => {
-        bottleRectRef.current = rect;
-    }
+    addVessel: () => send({ type: 'addVessel' }),
+    reshapeVessel: (vessel: Vessel) => send({ type: 'reshapeVessel', vessel }),
+    // An engine that stopped before answering undid nothing
+    undo: () => hostRef.current ? hostRef.current.call('undo').catch(() => null) : Promise.resolve(null),
+    redo: () => hostRef.current ? hostRef.current.call('redo').catch(() => null) : Promise.resolve(null),
+    exportSvg: async () => gardenToSvg(await call('snapshot')),
+    exportPng: async (size: PngExportSize) => gardenToPng(await call('snapshot'), size),
+    growInstantly: () => send({ type: 'growInstantly' }),
+    deselectPlant: () => send({ type: 'selectPlant', id: null }),
+    editPlant: (id: string, plantSettings: PlantSettings) => send({ type: 'editPlant', id, settings: plantSettings }),
+    deletePlant: (id: string) => send({ type: 'deletePlant', id }),
+    duplicatePlant: (id: string) => send({ type: 'duplicatePlant', id }),
+    transformPlant: (id: string, transform: Partial<PlantTransform>) => send({ type: 'transformPlant', id, transform }),
+    reorderPlant: (id: string, direction: 1 | -1) => send({ type: 'reorderPlant', id, direction })
   }));
 
+  // Starts the engine on two fresh canvases. They are created here rather than rendered, because a canvas can only be
+  // handed to a worker once and StrictMode mounts this effect twice.
   useEffect(() => {
-    const handleResize = () => {
-      if (containerRef.current) {
-        setDimensions({ 
-            width: containerRef.current.offsetWidth, 
-            height: containerRef.current.offsetHeight 
-        });
-      }
+    const container = containerRef.current;
+    if (!container) return;
+    const createLayer = (zIndex: number) => {
+        const canvas = document.createElement('canvas');
+        canvas.className = 'absolute inset-0 w-full h-full pointer-events-none';
+        canvas.style.zIndex = String(zIndex);
+        container.prepend(canvas);
+        return canvas;
     };
+    // Layer 2: The composite view of every vessel's contents (Foreground, Transparent)
+    const inside = createLayer(10);
+    // Layer 1: The world outside (Background)
+    const outside = createLayer(0);
+
+    // Zooming or moving to another screen changes devicePixelRatio and also fires resize
+    const measure = (): GardenSize => ({
+        width: container.offsetWidth,
+        height: container.offsetHeight,
+        pixelRatio: window.devicePixelRatio || 1
+    });
+    const host = startGarden(outside, inside, measure(), optionsRef.current, event => handleEventRef.current(event));
+    hostRef.current = host;
+
+    const handleResize = () => host.send({ type: 'resize', size: measure() });
     window.addEventListener('resize', handleResize);
-    handleResize();
-    return () => window.removeEventListener('resize', handleResize);
+    return () => {
+        window.removeEventListener('resize', handleResize);
+        host.dispose();
+        if (hostRef.current === host) hostRef.current = null;
+        outside.remove();
+        inside.remove();
+    };
   }, []);
 
-  // Initialization and Resize Logic
+  // Keep the engine in step with the controls; environment changes are saved with the garden
   useEffect(() => {
-    [canvasOutsideRef.current, canvasInsideRef.current].forEach(canvas => {
-        if (!canvas) return;
-        canvas.width = dimensions.width;
-        canvas.height = dimensions.height;
-    });
-
-    // Fill Outside canvas
-    const ctxOut = canvasOutsideRef.current?.getContext('2d');
-    if (ctxOut) {
-        ctxOut.fillStyle = '#fdfbf7'; 
-        ctxOut.fillRect(0, 0, dimensions.width, dimensions.height);
-    }
-    
-    // Clear Inside canvas
-    const ctxIn = canvasInsideRef.current?.getContext('2d');
-    if (ctxIn) {
-        ctxIn.clearRect(0, 0, dimensions.width, dimensions.height);
-    }
-
-    // On resize, we lose the offscreen canvases if we don't handle them. 
-    // For simplicity, we clear everything on resize.
-    growersRef.current = [];
-    plantHistoryRef.current = [];
-    bottlePlantsRef.current = [];
-  }, [dimensions]);
+      optionsRef.current = { settings, environment, autoFit, pickingParents, pace, instant: reducedMotion };
+      send({ type: 'configure', options: optionsRef.current });
+  }, [settings, environment, autoFit, pickingParents, pace, reducedMotion]);
 
   // Handle Clear Trigger (Outside Only)
   useEffect(() => {
-      const ctxOut = canvasOutsideRef.current?.getContext('2d');
-      if (ctxOut) {
-          ctxOut.fillStyle = '#fdfbf7'; 
-          ctxOut.fillRect(0, 0, dimensions.width, dimensions.height);
-      }
-      // Remove growers that target the outside canvas
-      if (canvasOutsideRef.current) {
-          const outCtx = canvasOutsideRef.current.getContext('2d');
-          growersRef.current = growersRef.current.filter(g => g.ctx !== outCtx);
-      }
-  }, [clearTrigger, dimensions]);
-
-  const drawLeaf = (ctx: CanvasRenderingContext2D, x: number, y: number, angle: number, baseSize: number, color: string, type: PlantType) => {
-    // Jitter Size
-    const size = baseSize * (0.8 + Math.random() * 0.4);
-
-    ctx.save();
-    ctx.translate(x, y);
-    ctx.rotate(angle);
-    ctx.fillStyle = color;
-    ctx.shadowBlur = 2;
-    ctx.shadowColor = "rgba(0,0,0,0.05)";
-    ctx.shadowOffsetY = 2;
-    
-    ctx.beginPath();
-    if (type === PlantType.PALM) {
-      const spread = Math.PI / 1.5;
-      ctx.moveTo(0, 0);
-      ctx.arc(0, 0, size, -spread/2, spread/2);
-      ctx.lineTo(0, 0);
-      ctx.fill();
-      ctx.strokeStyle = "rgba(255,255,255,0.3)";
-      ctx.lineWidth = 0.5;
-      for(let i = -2; i <= 2; i++) {
-         ctx.beginPath();
-         ctx.moveTo(0,0);
-         const a = (i * spread) / 6;
-         ctx.lineTo(Math.cos(a) * size * 0.9, Math.sin(a) * size * 0.9);
-         ctx.stroke();
-      }
-    } else if (type === PlantType.GEOMETRIC) {
-      ctx.moveTo(0, 0);
-      ctx.lineTo(size, -size/3);
-      ctx.lineTo(size * 1.5, 0);
-      ctx.lineTo(size, size/3);
-      ctx.lineTo(0, 0);
-      ctx.fill();
-      ctx.strokeStyle = "rgba(0,0,0,0.1)";
-      ctx.lineWidth = 1;
-      ctx.beginPath();
-      ctx.moveTo(0,0);
-      ctx.lineTo(size * 1.5, 0);
-      ctx.stroke();
-    } else if (type === PlantType.UMBRELLA) {
-      ctx.rotate(-Math.PI / 2);
-      const w = size;
-      const h = size * 1.2;
-      ctx.moveTo(0, 0);
-      ctx.bezierCurveTo(-w/2, -h/4, -w, h/2, 0, h);
-      ctx.bezierCurveTo(w, h/2, w/2, -h/4, 0, 0);
-      ctx.fill();
-      ctx.strokeStyle = "rgba(255,255,255,0.2)";
-      ctx.lineWidth = 1;
-      ctx.beginPath();
-      ctx.moveTo(0, 0);
-      ctx.lineTo(0, h * 0.9);
-      ctx.stroke();
-    } else if (type === PlantType.BERRY) {
-      ctx.ellipse(size/2, 0, size/2, size/4, 0, 0, Math.PI * 2);
-      ctx.fill();
-    } else if (type === PlantType.CLUSTER) {
-       // Short, wide, somewhat teardrop shaped leaf
-       ctx.moveTo(0,0);
-       ctx.quadraticCurveTo(size/2, -size/3, size, 0);
-       ctx.quadraticCurveTo(size/2, size/3, 0, 0);
-       ctx.fill();
-       ctx.strokeStyle = "rgba(0,0,0,0.1)";
-       ctx.lineWidth = 0.5;
-       ctx.beginPath();
-       ctx.moveTo(0,0);
-       ctx.lineTo(size*0.8, 0);
-       ctx.stroke();
-    } else {
-      ctx.moveTo(0, 0);
-      ctx.bezierCurveTo(size / 2, -size / 2, size, -size / 4, size, 0);
-      ctx.bezierCurveTo(size, size / 4, size / 2, size / 2, 0, 0);
-      ctx.fill();
-      ctx.strokeStyle = "rgba(0,0,0,0.1)";
-      ctx.lineWidth = 0.5;
-      ctx.beginPath();
-      ctx.moveTo(0,0);
-      ctx.lineTo(size * 0.8, 0);
-      ctx.stroke();
-    }
-    ctx.restore();
-  };
+      if (clearTrigger === 0) return;
+      send({ type: 'clear' });
+  }, [clearTrigger]);
 
-  const drawFlower = (ctx: CanvasRenderingContext2D, x: number, y: number, baseSize: number, startColor: string, endColor: string, petals: number, type: PlantType) => {
-    // Size Jitter
-    const size = baseSize * (0.85 + Math.random() * 0.3);
-
-    ctx.save();
-    ctx.translate(x, y);
-    ctx.shadowBlur = 4;
-    ctx.shadowColor = "rgba(0,0,0,0.1)";
-    ctx.shadowOffsetY = 2;
-
-    if (type === PlantType.GEOMETRIC) {
-       ctx.fillStyle = lerpColor(startColor, endColor, 0.5);
-       ctx.beginPath();
-       for(let i=0; i<petals * 2; i++) {
-          const r = (i % 2 === 0) ? size : size/3;
-          const a = (i * Math.PI) / petals;
-          ctx.lineTo(Math.cos(a) * r, Math.sin(a) * r);
-       }
-       ctx.closePath();
-       ctx.fill();
-    } else if (type === PlantType.BERRY) {
-       const berryCount = Math.floor(petals) || 3;
-       for(let i=0; i < berryCount; i++) {
-          const bx = (Math.random() - 0.5) * size;
-          const by = (Math.random() - 0.5) * size;
-          const berrySize = size / 3.5;
-          ctx.beginPath();
-          ctx.fillStyle = lerpColor(startColor, endColor, Math.random());
-          ctx.arc(bx, by, berrySize, 0, Math.PI * 2);
-          ctx.fill();
-          ctx.fillStyle = 'rgba(255,255,255,0.4)';
-          ctx.beginPath();
-          ctx.arc(bx - berrySize/3, by - berrySize/3, berrySize/4, 0, Math.PI * 2);
-          ctx.fill();
-       }
-    } else if (type === PlantType.UMBRELLA) {
-      ctx.rotate(Math.random() - 0.5);
-      ctx.fillStyle = lerpColor(startColor, endColor, 0.2); 
-      ctx.beginPath();
-      ctx.moveTo(0, 0);
-      ctx.bezierCurveTo(-size/2, -size, -size*1.5, -size, 0, -size*2);
-      ctx.bezierCurveTo(size*1.5, -size, size/2, -size, 0, 0);
-      ctx.fill();
-      ctx.strokeStyle = lerpColor(startColor, endColor, 0.9);
-      ctx.lineWidth = size / 4;
-      ctx.lineCap = 'round';
-      ctx.beginPath();
-      ctx.moveTo(0, 0);
-      ctx.lineTo(0, -size * 1.5);
-      ctx.stroke();
-    } else if (type === PlantType.CLUSTER) {
-        // Draw many small dots in a circular cloud
-        const floretCount = Math.max(8, petals * 2);
-        for(let i=0; i < floretCount; i++) {
-            // Random point in circle
-            const r = size * Math.sqrt(Math.random());
-            const theta = Math.random() * 2 * Math.PI;
-            const fx = r * Math.cos(theta);
-            const fy = r * Math.sin(theta);
-            
-            const floretSize = size / 5 * (0.8 + Math.random() * 0.4);
-            
-            ctx.beginPath();
-            ctx.fillStyle = lerpColor(startColor, endColor, Math.random());
-            ctx.arc(fx, fy, floretSize, 0, Math.PI * 2);
-            ctx.fill();
-        }
-    } else {
-       const angleStep = (Math.PI * 2) / petals;
-       for (let i = 0; i < petals; i++) {
-          const petalColor = lerpColor(startColor, endColor, i / petals);
-          ctx.fillStyle = petalColor;
-          ctx.save();
-          ctx.rotate(i * angleStep);
-          ctx.beginPath();
-          ctx.ellipse(size/1.5, 0, size/1.5, size/4, 0, 0, Math.PI * 2);
-          ctx.fill();
-          ctx.restore();
-       }
-       ctx.fillStyle = '#f59e0b'; // Amber
-       ctx.beginPath();
-       ctx.arc(0, 0, size/4, 0, Math.PI * 2);
-       ctx.fill();
-    }
-    ctx.restore();
-  };
-
-  const update = useCallback(() => {
-    // 1. Process Growers
-    growersRef.current.forEach((grower) => {
-      const { settings, life, maxLife, ctx } = grower;
-      // Setup context
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      ctx.globalCompositeOperation = 'source-over'; 
-
-      if (life >= maxLife || grower.width < 0.1) {
-        if (!grower.hasAttemptedFlower) {
-            if (grower.generation < 2 && Math.random() < settings.flowerProbability) {
-                drawFlower(ctx, grower.x, grower.y, settings.flowerSize, settings.flowerColorStart, settings.flowerColorEnd, settings.petalCount, settings.type);
-            }
-            grower.hasAttemptedFlower = true;
-        }
-        grower.life++; // Increment so it eventually gets filtered out
-        return;
-      }
-
-      const progress = life / maxLife;
-      let angleChange = 0;
-
-      if (settings.type === PlantType.GEOMETRIC) {
-         if (Math.random() < 0.05) { 
-            grower.angle += (Math.random() > 0.5 ? 1 : -1) * (Math.PI / 6); 
-         }
-         const targetAngle = -Math.PI / 2;
-         grower.angle += (targetAngle - grower.angle) * 0.02;
-      } else if (settings.type === PlantType.BERRY || settings.type === PlantType.CLUSTER) {
-        const n = noiseGenerator.noise(grower.x * 0.02, grower.y * 0.02, grower.noiseOffset + life * 0.05);
-        angleChange = n * (settings.curlFactor * 2);
-        grower.angle += angleChange;
-        // Stronger tendency to grow up for cluster
-        const targetAngle = -Math.PI / 2;
-        grower.angle += (targetAngle - grower.angle) * 0.05; 
-      } else {
-         if (progress < settings.straightness) {
-           const targetAngle = -Math.PI / 2;
-           const correction = (targetAngle - grower.angle) * 0.1;
-           const wobble = (Math.random() - 0.5) * 0.05;
-           grower.angle += correction + wobble;
-         } else {
-           const n = noiseGenerator.noise(grower.x * 0.01, grower.y * 0.01, grower.noiseOffset + life * 0.02);
-           angleChange = n * settings.curlFactor;
-           grower.angle += angleChange;
-         }
-      }
-
-      const nextX = grower.x + Math.cos(grower.angle) * grower.speed;
-      const nextY = grower.y + Math.sin(grower.angle) * grower.speed;
-
-      const stemColor = lerpColor(settings.stemColorStart, settings.stemColorEnd, progress);
-
-      ctx.beginPath();
-      ctx.moveTo(grower.x, grower.y);
-      ctx.lineTo(nextX, nextY);
-      
-      const currentWidth = grower.width * (1 - progress);
-      ctx.lineWidth = Math.max(0.5, currentWidth);
-      ctx.strokeStyle = stemColor;
-      ctx.globalAlpha = 0.9;
-      ctx.stroke();
-      ctx.globalAlpha = 1.0;
-
-      if (Math.random() < settings.leafFrequency) {
-        let leafAngle = grower.angle;
-        if (settings.type === PlantType.PALM) leafAngle += (Math.random() > 0.5 ? Math.PI/3 : -Math.PI/3);
-        else if (settings.type === PlantType.GEOMETRIC) leafAngle += (Math.random() > 0.5 ? Math.PI/2 : -Math.PI/2);
-        else if (settings.type === PlantType.UMBRELLA) leafAngle += (Math.random() - 0.5); 
-        else leafAngle += (Math.random() > 0.5 ? Math.PI/2 : -Math.PI/2) + (Math.random() * 0.5 - 0.25);
-
-        const leafColor = lerpColor(settings.leafColorStart, settings.leafColorEnd, progress);
-        drawLeaf(ctx, grower.x, grower.y, leafAngle, settings.leafSize, leafColor, settings.type);
-      }
-
-      let branchChance = 0.015;
-      if (settings.type === PlantType.PALM) branchChance = 0.005; 
-      if (settings.type === PlantType.GEOMETRIC) branchChance = 0.04; 
-      if (settings.type === PlantType.UMBRELLA) branchChance = 0.002;
-      if (settings.type === PlantType.BERRY) branchChance = 0.04;
-      if (settings.type === PlantType.CLUSTER) branchChance = 0.025;
-
-      if (grower.generation < 2 && Math.random() < branchChance) {
-         let branchAngleOffset = 0.6;
-         if (settings.type === PlantType.GEOMETRIC) branchAngleOffset = 0.8; 
-         if (settings.type === PlantType.BERRY) branchAngleOffset = 0.9;
-         if (settings.type === PlantType.CLUSTER) branchAngleOffset = 0.5;
-
-         const branchAngle = grower.angle + (Math.random() > 0.5 ? branchAngleOffset : -branchAngleOffset);
-         growersRef.current.push(createGrower(grower.x, grower.y, settings, ctx, grower.generation + 1, branchAngle));
-      }
-
-      grower.x = nextX;
-      grower.y = nextY;
-      grower.life++;
-    });
-
-    // Remove dead growers
-    growersRef.current = growersRef.current.filter(g => g.life < g.maxLife + 50); // Keep +50 to finish animations if needed
-
-    // 2. Composite Bottle Plants
-    if (canvasInsideRef.current) {
-        const ctxIn = canvasInsideRef.current.getContext('2d');
-        if (ctxIn) {
-            ctxIn.clearRect(0, 0, dimensions.width, dimensions.height);
-            bottlePlantsRef.current.forEach(plant => {
-                // Determine offset based on drag
-                const dx = plant.currentX - plant.originX;
-                ctxIn.drawImage(plant.canvas, dx, 0);
-            });
-        }
-    }
-
-    requestRef.current = requestAnimationFrame(update);
-  }, [settings, dimensions]);
-
-  useEffect(() => {
-    requestRef.current = requestAnimationFrame(update);
-    return () => {
-      if (requestRef.current) cancelAnimationFrame(requestRef.current);
-    };
-  }, [update]);
-
-  const copyNearestPlant = (clientX: number, clientY: number) => {
+  // Pointer position in garden coordinates
+  const toGarden = (clientX: number, clientY: number) => {
       const rect = containerRef.current?.getBoundingClientRect();
-      if (!rect) return;
-      
-      const x = clientX - rect.left;
-      const y = clientY - rect.top;
-
-      let closest: PlantHistoryItem | null = null;
-      let minDist = 100;
-
-      for (const item of plantHistoryRef.current) {
-          const dx = item.x - x;
-          const dy = item.y - y;
-          const dist = Math.sqrt(dx*dx + dy*dy);
-          if (dist < minDist) {
-              minDist = dist;
-              closest = item;
-          }
-      }
-
-      if (closest) {
-          onSettingsCopied(closest.settings);
-      } else {
-          onSettingsCopied(settings);
-      }
+      return rect ? { x: clientX - rect.left, y: clientY - rect.top } : null;
   };
 
   const handlePointerDown = (e: React.PointerEvent) => {
     if (e.button !== 0) return;
     const { clientX, clientY } = e;
-    const rect = containerRef.current?.getBoundingClientRect();
-    if (!rect) return;
-
-    const x = clientX - rect.left;
-    const y = clientY - rect.top;
+    const point = toGarden(clientX, clientY);
+    if (!point) return;
+    pointersRef.current.set(e.pointerId, point);
+    send({ type: 'hover', point: null });
+
+    // A second finger pinches the selected plant instead of dragging it
+    const selected = selectedPlantRef.current;
+    if (pointersRef.current.size === 2 && selected) {
+        endGesture();
+        const [a, b] = [...pointersRef.current.values()];
+        pinchRef.current = { id: selected.id, distance: Math.hypot(a.x - b.x, a.y - b.y) || 1, scale: selected.transform.scale };
+        return;
+    }
 
     // Start tracking for Long Press (Mobile Copy)
     pointerStartRef.current = { x: clientX, y: clientY };
     longPressTimerRef.current = setTimeout(() => {
         // Trigger Copy
-        copyNearestPlant(clientX, clientY);
+        send({ type: 'copyAt', ...point });
         // Haptic feedback if available
         if (navigator.vibrate) navigator.vibrate(50);
     }, 600);
 
-    // Check if we clicked on a bottle plant stem for DRAG
-    const clickedPlant = bottlePlantsRef.current.find(p => Math.abs(x - p.currentX) < 40 && y < p.y && y > p.y - 400); // 40px radius, above origin
-
-    if (clickedPlant) {
-        dragStateRef.current = {
-            plantId: clickedPlant.id,
-            startX: x,
-            plantStartX: clickedPlant.currentX
-        };
-    }
-    // Note: We removed spawn logic here. Spawning is now Double Click.
+    // Selects the vessel under the pointer and picks up a bottle plant stem there to drag.
+    // Spawning is Double Click.
+    send({ type: 'pointerDown', ...point });
   };
 
   const handlePointerMove = (e: React.PointerEvent) => {
     const { clientX, clientY } = e;
-    const rect = containerRef.current?.getBoundingClientRect();
-    if (!rect) return;
-    const x = clientX - rect.left;
-    // const y = clientY - rect.top; // y unused for horizontal drag
+    const point = toGarden(clientX, clientY);
+    if (!point) return;
+
+    const pinch = pinchRef.current;
+    if (pinch && pointersRef.current.has(e.pointerId)) {
+        pointersRef.current.set(e.pointerId, point);
+        const [a, b] = [...pointersRef.current.values()];
+        send({ type: 'transformPlant', id: pinch.id, transform: { scale: pinch.scale * Math.hypot(a.x - b.x, a.y - b.y) / pinch.distance } });
+        return;
+    }
 
     // Check Long Press Movement Cancellation
     if (pointerStartRef.current && longPressTimerRef.current) {
@@ -583,31 +264,15 @@ const GardenCanvas = forwardRef<GardenCanvasRef, GardenCanvasProps>(({ settings,
         }
     }
 
-    if (dragStateRef.current) {
-        const { plantId, startX, plantStartX } = dragStateRef.current;
-        const plant = bottlePlantsRef.current.find(p => p.id === plantId);
-        if (plant) {
-            let newX = plantStartX + (x - startX);
-            
-            // Constrain to bottle if possible
-            if (bottleRectRef.current) {
-                const bRect = bottleRectRef.current;
-                const canvasRect = rect;
-                
-                // Convert bottle global rect to canvas relative coords
-                const bottleLeft = bRect.left - canvasRect.left;
-                const bottleRight = bRect.right - canvasRect.left;
-                
-                // Clamp
-                newX = Math.max(bottleLeft + 20, Math.min(bottleRight - 20, newX));
-            }
-            plant.currentX = newX;
-        }
-    }
+    // Only sent while something is pressed; the engine ignores it unless a plant is being dragged
+    if (pointerStartRef.current) send({ type: 'pointerMove', ...point });
+    // A mouse or pen resting over a plant shows which one a right-click would copy
+    else if (e.pointerType !== 'touch') send({ type: 'hover', point });
   };
 
-  const handlePointerUp = () => {
-      dragStateRef.current = null;
+  // Drops a dragged plant where it got to and stops waiting for a long press
+  const endGesture = () => {
+      if (pointerStartRef.current) send({ type: 'pointerUp' });
       if (longPressTimerRef.current) {
           clearTimeout(longPressTimerRef.current);
           longPressTimerRef.current = null;
@@ -615,59 +280,163 @@ const GardenCanvas = forwardRef<GardenCanvasRef, GardenCanvasProps>(({ settings,
       pointerStartRef.current = null;
   };
 
+  const handlePointerUp = (e: React.PointerEvent) => {
+      // Lifting either finger ends a pinch
+      if (pointersRef.current.delete(e.pointerId) && pointersRef.current.size < 2) pinchRef.current = null;
+      endGesture();
+  };
+
+  const handlePointerLeave = (e: React.PointerEvent) => {
+      handlePointerUp(e);
+      send({ type: 'hover', point: null });
+  };
+
   const handleContextMenu = (e: React.MouseEvent) => {
       e.preventDefault();
-      copyNearestPlant(e.clientX, e.clientY);
+      const point = toGarden(e.clientX, e.clientY);
+      if (!point) return;
+      // Shift + right-click exports that single plant as SVG instead of copying its DNA
+      send({ type: e.shiftKey ? 'exportPlantAt' : 'copyAt', ...point });
   };
 
-  const handleDoubleClick = (e: React.MouseEvent) => {
-      const { clientX, clientY } = e;
+  // Dragging the light around the garden; it is stored as fractions of the garden's size
+  const handleLightPointerDown = (e: React.PointerEvent) => {
+      e.stopPropagation();
+      e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handleLightPointerMove = (e: React.PointerEvent) => {
+      if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
       const rect = containerRef.current?.getBoundingClientRect();
-      if (!rect) return;
+      if (!rect || rect.width === 0 || rect.height === 0) return;
+      const clamp = (v: number) => Math.max(0, Math.min(1, v));
+      onEnvironmentChange({
+          ...environment,
+          light: { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) }
+      });
+  };
 
-      const x = clientX - rect.left;
-      const y = clientY - rect.top;
+  // Moving and resizing the selected vessel by its handles; its plants keep their place relative to its floor
+  const handleVesselPointerDown = (e: React.PointerEvent, handle: VesselHandle) => {
+      e.stopPropagation();
+      if (!selectedVesselId) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      vesselDragRef.current = { handle, startX: e.clientX, startY: e.clientY };
+  };
 
-      let isInside = false;
-      if (bottleRectRef.current) {
-          const b = bottleRectRef.current;
-          if (clientX >= b.left && clientX <= b.right && clientY >= b.top && clientY <= b.bottom) {
-              isInside = true;
-          }
-      }
+  const handleVesselPointerMove = (e: React.PointerEvent) => {
+      const drag = vesselDragRef.current;
+      if (!drag || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+      send({ type: 'dragVessel', handle: drag.handle, dx: e.clientX - drag.startX, dy: e.clientY - drag.startY });
+  };
 
-      spawnPlant(x, y, undefined, isInside);
+  const handleVesselPointerUp = () => {
+      if (!vesselDragRef.current) return;
+      vesselDragRef.current = null;
+      send({ type: 'dropVessel' });
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+      const point = toGarden(e.clientX, e.clientY);
+      if (point) send({ type: 'plantAt', ...point });
   };
 
+  const selectedView = vesselViews.find(v => v.id === selectedVesselId);
+
   return (
     <div ref={containerRef} className="absolute inset-0">
-        {/* Layer 1: Outside World (Background) */}
-        <canvas
-            ref={canvasOutsideRef}
-            className="absolute inset-0 w-full h-full pointer-events-none" 
-            style={{ zIndex: 0 }}
-        />
-        
-        {/* Layer 2: Inside Bottle (Foreground, Transparent) */}
-        <canvas
-            ref={canvasInsideRef}
-            className="absolute inset-0 w-full h-full pointer-events-none"
-            style={{ zIndex: 10 }}
-        />
+        {/* Layers 1 and 2, the canvases, are added by the engine effect */}
+
+        {/* Glass of every vessel, over its plants */}
+        {vesselViews.map(v => (
+            <VesselGlass key={v.id} placed={v} highlighted={v.id === dropTargetId} />
+        ))}
 
         {/* Layer 3: Interaction Layer (Transparent, Handles Events) */}
-        <div 
+        <div
             className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
             style={{ zIndex: 20 }}
             onPointerDown={handlePointerDown}
             onPointerMove={handlePointerMove}
             onPointerUp={handlePointerUp}
-            onPointerLeave={handlePointerUp}
+            onPointerLeave={handlePointerLeave}
             onContextMenu={handleContextMenu}
             onDoubleClick={handleDoubleClick}
         />
+
+        {/* The plant a right-click would copy */}
+        {hoverBox && (
+            <div
+                className="absolute pointer-events-none rounded-md outline-dotted outline-1 outline-offset-2 outline-slate-400/80"
+                style={{ left: hoverBox.x, top: hoverBox.y, width: hoverBox.width, height: hoverBox.height, zIndex: 21 }}
+            >
+                <span className="absolute -top-6 left-0 whitespace-nowrap text-[10px] text-slate-500 bg-white/80 px-1.5 py-0.5 rounded">
+                    Right-click to {pickingParents ? 'pick as parent' : 'copy'}
+                </span>
+            </div>
+        )}
+
+        {/* Selected plant highlight */}
+        {selectedPlantBox && (
+            <div
+                className="absolute pointer-events-none rounded-md outline-dashed outline-2 outline-offset-2 outline-emerald-400/80"
+                style={{ left: selectedPlantBox.x, top: selectedPlantBox.y, width: selectedPlantBox.width, height: selectedPlantBox.height, zIndex: 21 }}
+            />
+        )}
+
+        {/* Selected vessel: outline plus move, resize and remove handles */}
+        {selectedView && (
+            <div
+                className="absolute pointer-events-none outline-dashed outline-1 outline-offset-4 outline-sky-400/70"
+                style={{ left: selectedView.x, top: selectedView.y, width: selectedView.width, height: selectedView.height, zIndex: 22 }}
+            >
+                <div
+                    className="absolute -top-8 left-1/2 -translate-x-1/2 px-2 py-0.5 rounded-full bg-white/90 border border-slate-200 shadow-sm text-[10px] text-slate-500 cursor-move touch-none pointer-events-auto"
+                    onPointerDown={(e) => handleVesselPointerDown(e, 'move')}
+                    onPointerMove={handleVesselPointerMove}
+                    onPointerUp={handleVesselPointerUp}
+                    title="Drag to move the vessel"
+                >
+                    Move
+                </div>
+                <div
+                    className="absolute -bottom-2 -right-2 w-4 h-4 rounded-sm bg-white border border-sky-400 shadow-sm cursor-nwse-resize touch-none pointer-events-auto"
+                    onPointerDown={(e) => handleVesselPointerDown(e, 'resize')}
+                    onPointerMove={handleVesselPointerMove}
+                    onPointerUp={handleVesselPointerUp}
+                    title="Drag to resize the vessel"
+                />
+                <button
+                    className="absolute -top-8 -right-2 w-6 h-6 rounded-full bg-white/90 border border-slate-200 shadow-sm text-slate-500 hover:text-rose-500 pointer-events-auto disabled:opacity-40 disabled:pointer-events-none"
+                    onClick={() => send({ type: 'removeVessel', id: selectedView.id })}
+                    disabled={vesselViews.length <= 1}
+                    title="Remove vessel and its plants"
+                >
+                    ×
+                </button>
+            </div>
+        )}
+
+        {/* Light source, draggable */}
+        {environment.light && (
+            <div
+                className="absolute -translate-x-1/2 -translate-y-1/2 w-10 h-10 rounded-full cursor-grab active:cursor-grabbing touch-none flex items-center justify-center"
+                style={{
+                    zIndex: 25,
+                    left: `${environment.light.x * 100}%`,
+                    top: `${environment.light.y * 100}%`,
+                    background: `radial-gradient(circle, rgba(253,224,71,${0.4 + environment.lightStrength * 0.6}) 0%, rgba(253,224,71,0) 70%)`
+                }}
+                onPointerDown={handleLightPointerDown}
+                onPointerMove={handleLightPointerMove}
+                onContextMenu={(e) => e.preventDefault()}
+                title="Light source: drag to move"
+            >
+                <div className="w-4 h-4 rounded-full bg-amber-300 border border-amber-400 shadow-sm" />
+            </div>
+        )}
     </div>
   );
 });
 
-export default GardenCanvas;
\ No newline at end of file
+export default GardenCanvas;
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { PlantSettings, PlantSummary, PlantTransform } from '../types';
+import { getSpecies } from '../species';
+import { GENES, GeneGroup, GeneSpec, limitBranching } from '../utils/genes';
+
+interface PlantInspectorProps {
+  plant: PlantSummary;
+  transform: PlantTransform;
+  onChange: (settings: PlantSettings) => void; // Regrows the plant in place
+  onTransformChange: (changes: Partial<PlantTransform>) => void;
+  onReorder: (direction: 1 | -1) => void; // 1 brings it forward
+  onDelete: () => void;
+  onDuplicate: () => void;
+  onCopyDna: () => void;
+  onClose: () => void;
+}
+
+const GROUP_TITLES: Record<GeneGroup, string> = {
+  stem: 'Stem',
+  foliage: 'Foliage',
+  bloom: 'Bloom',
+  grammar: 'Grammar',
+  crown: 'Crown',
+  branching: 'Branching'
+};
+
+// Text genes are only handed on once they pass their check; until then the draft stays here
+const TextGene: React.FC<{ gene: GeneSpec; value: string; onChange: (value: string) => void }> = ({ gene, value, onChange }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  const problem = gene.check?.(draft) ?? null;
+
+  const edit = (text: string) => {
+      setDraft(text);
+      if (!gene.check?.(text)) onChange(text);
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+        <span className="text-xs text-slate-500 font-medium">{gene.label}</span>
+        <input
+            type="text"
+            maxLength={gene.max}
+            value={draft}
+            onChange={(e) => edit(e.target.value)}
+            aria-invalid={problem !== null}
+            className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs font-mono text-slate-600 focus:outline-none"
+            spellCheck={false}
+        />
+        {problem && <span role="alert" className="text-[11px] text-rose-500">{problem}</span>}
+    </div>
+  );
+};
+
+const GeneField: React.FC<{ gene: GeneSpec; settings: PlantSettings; onChange: (changes: Partial<PlantSettings>) => void }> = ({ gene, settings, onChange }) => {
+  const value = settings[gene.key];
+  if (gene.kind === 'color') {
+      return (
+        <label className="flex justify-between items-center text-xs text-slate-500 font-medium">
+            <span>{gene.label}</span>
+            <input
+                type="color"
+                value={String(value)}
+                onChange={(e) => onChange({ [gene.key]: e.target.value })}
+                className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer"
+            />
+        </label>
+      );
+  }
+  if (gene.kind === 'text') {
+      return <TextGene gene={gene} value={String(value)} onChange={(text) => onChange({ [gene.key]: text })} />;
+  }
+  const min = gene.min ?? 0;
+  const max = gene.max ?? 1;
+  const step = gene.kind === 'integer' ? 1 : (max - min) / 100;
+  return (
+    <div className="flex flex-col">
+        <div className="flex justify-between text-xs text-slate-500 mb-1 font-medium">
+            <span>{gene.label}</span>
+            <span>{gene.kind === 'integer' ? value : Number(value).toFixed(2)}</span>
+        </div>
+        <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={Number(value)}
+            onChange={(e) => onChange({ [gene.key]: parseFloat(e.target.value) })}
+            className="w-full h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-slate-600"
+        />
+    </div>
+  );
+};
+
+// The selected bottle plant: its genes, seed and lineage, with actions on just that plant
+const PlantInspector: React.FC<PlantInspectorProps> = ({ plant, transform, onChange, onTransformChange, onReorder, onDelete, onDuplicate, onCopyDna, onClose }) => {
+  const species = getSpecies(plant.settings.type);
+  const groups: GeneGroup[] = ['stem', 'foliage', 'bloom', ...(species.extraGenes ?? [])];
+  const update = (changes: Partial<PlantSettings>) => onChange(limitBranching({ ...plant.settings, ...changes }));
+
+  return (
+    <div className="w-72 max-h-[70vh] overflow-y-auto scrollbar-hide p-4 bg-white/90 backdrop-blur-md border border-slate-200 rounded-lg shadow-lg space-y-4">
+        <div className="flex justify-between items-center">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">{species.label} plant</span>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-xs" title="Deselect the plant">Done</button>
+        </div>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+            <dt className="text-slate-400">Seed</dt>
+            <dd className="font-mono text-slate-600">{plant.seed}</dd>
+            <dt className="text-slate-400">Lineage</dt>
+            <dd className="text-slate-600">
+                {plant.parents
+                    ? <>Bred from {plant.parents.map(id => <span key={id} className="font-mono text-slate-500"> #{id.slice(0, 4)}</span>)}</>
+                    : 'Grown from seed'}
+            </dd>
+        </dl>
+        <div className="flex gap-2">
+            <button onClick={onCopyDna} className="flex-1 bg-slate-50 hover:bg-slate-100 text-slate-600 py-2 rounded-lg text-xs font-medium transition-colors border border-slate-200">
+                Copy DNA
+            </button>
+            <button onClick={onDuplicate} className="flex-1 bg-slate-50 hover:bg-slate-100 text-slate-600 py-2 rounded-lg text-xs font-medium transition-colors border border-slate-200">
+                Duplicate
+            </button>
+            <button onClick={onDelete} className="flex-1 bg-rose-50 hover:bg-rose-100 text-rose-500 py-2 rounded-lg text-xs font-medium transition-colors border border-rose-100" title="Delete (Del)">
+                Delete
+            </button>
+        </div>
+        <div className="space-y-3">
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Arrange</h3>
+            <div className="flex flex-col">
+                <div className="flex justify-between text-xs text-slate-500 mb-1 font-medium">
+                    <span>Scale</span>
+                    <span>{transform.scale.toFixed(2)}×</span>
+                </div>
+                <input
+                    type="range"
+                    min={0.25}
+                    max={3}
+                    step={0.05}
+                    value={transform.scale}
+                    onChange={(e) => onTransformChange({ scale: parseFloat(e.target.value) })}
+                    className="w-full h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-slate-600"
+                />
+            </div>
+            <div className="flex gap-2">
+                <button
+                    onClick={() => onTransformChange({ mirrored: !transform.mirrored })}
+                    aria-pressed={transform.mirrored}
+                    className={`flex-1 py-2 rounded-lg text-xs font-medium transition-colors border ${transform.mirrored ? 'bg-slate-700 text-white border-slate-700' : 'bg-slate-50 hover:bg-slate-100 text-slate-600 border-slate-200'}`}
+                >
+                    Mirror
+                </button>
+                <button onClick={() => onReorder(1)} className="flex-1 bg-slate-50 hover:bg-slate-100 text-slate-600 py-2 rounded-lg text-xs font-medium transition-colors border border-slate-200">
+                    Forward
+                </button>
+                <button onClick={() => onReorder(-1)} className="flex-1 bg-slate-50 hover:bg-slate-100 text-slate-600 py-2 rounded-lg text-xs font-medium transition-colors border border-slate-200">
+                    Back
+                </button>
+            </div>
+            <p className="text-[11px] text-slate-400">Drag the plant to move it along the soil; pinch to resize it.</p>
+        </div>
+        {groups.map(group => (
+            <div key={group} className="space-y-3">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">{GROUP_TITLES[group]}</h3>
+                {GENES.filter(gene => gene.group === group).map(gene => (
+                    <GeneField key={gene.key} gene={gene} settings={plant.settings} onChange={update} />
+                ))}
+            </div>
+        ))}
+    </div>
+  );
+};
+
+export default PlantInspector;
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Perlin } from '../utils/noise';
+import { createRandom } from '../utils/random';
+import { sowPlant, stepGrowers } from '../utils/growth';
+import { renderScene } from '../utils/render';
+import { fitScene } from '../utils/thumbnail';
+import { PlantSettings, SceneElement } from '../types';
+
+interface PlantPreviewProps {
+  settings: PlantSettings;
+}
+
+// Same seed every time, so a change in the preview comes from the settings alone
+const PREVIEW_SEED = 20240601;
+const WIDTH = 272;
+const HEIGHT = 180;
+const PADDING = 8;
+const TICKS_PER_FRAME = 2;
+// Waits for slider drags to pause before regrowing
+const REGROW_DELAY_MS = 80;
+const MAX_TICKS = 5000;
+
+interface Growth {
+  scene: SceneElement[];
+  sizes: number[]; // Scene length after each tick, so the growth can be replayed tick by tick
+}
+
+// Grows the plant to completion up front; the whole scene is needed to fit it into the preview
+const grow = (settings: PlantSettings): Growth => {
+  const scene: SceneElement[] = [];
+  const sizes: number[] = [];
+  let growers = sowPlant(settings, scene, createRandom(PREVIEW_SEED), new Perlin(PREVIEW_SEED));
+  while (growers.length > 0 && sizes.length < MAX_TICKS) {
+    growers = stepGrowers(growers);
+    sizes.push(scene.length);
+  }
+  return { scene, sizes };
+};
+
+// Regrows a plant from the current settings and animates it with its own frame loop, apart from the garden's
+const PlantPreview: React.FC<PlantPreviewProps> = ({ settings }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [growth, setGrowth] = useState<Growth | null>(null);
+  const [replays, setReplays] = useState(0);
+
+  useEffect(() => {
+      const timer = setTimeout(() => setGrowth(grow(settings)), REGROW_DELAY_MS);
+      return () => clearTimeout(timer);
+  }, [settings]);
+
+  useEffect(() => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx || !growth) return;
+
+      const pixelRatio = window.devicePixelRatio || 1;
+      canvas.width = Math.round(WIDTH * pixelRatio);
+      canvas.height = Math.round(HEIGHT * pixelRatio);
+      const fit = fitScene(growth.scene, WIDTH, HEIGHT, PADDING);
+      ctx.setTransform(pixelRatio * fit.scale, 0, 0, pixelRatio * fit.scale, 0, 0);
+
+      let tick = 0;
+      let painted = 0;
+      let frame = 0;
+      const step = () => {
+          tick = Math.min(growth.sizes.length, tick + TICKS_PER_FRAME);
+          const upTo = tick > 0 ? growth.sizes[tick - 1] : 0;
+          renderScene(ctx, growth.scene.slice(painted, upTo), fit.x, fit.y);
+          painted = upTo;
+          if (tick < growth.sizes.length) frame = requestAnimationFrame(step);
+      };
+      frame = requestAnimationFrame(step);
+      return () => cancelAnimationFrame(frame);
+  }, [growth, replays]);
+
+  return (
+    <div className="relative mb-6 rounded-xl border border-slate-200 bg-[#fdfbf7] overflow-hidden">
+        <canvas ref={canvasRef} style={{ width: WIDTH, height: HEIGHT }} className="block" />
+        <button
+            onClick={() => setReplays(n => n + 1)}
+            className="absolute bottom-2 right-2 bg-white/80 border border-slate-200 rounded-lg p-1.5 text-slate-500 hover:text-slate-800 transition-colors"
+            title="Replay growth"
+        >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M4 2a1 1 0 011 1v2.101a7.002 7.002 0 0111.601 2.566 1 1 0 11-1.885.666A5.002 5.002 0 005.999 7H9a1 1 0 010 2H4a1 1 0 01-1-1V3a1 1 0 011-1zm.008 9.057a1 1 0 011.276.61A5.002 5.002 0 0014.001 13H11a1 1 0 110-2h5a1 1 0 011 1v5a1 1 0 11-2 0v-2.101a7.002 7.002 0 01-11.601-2.566 1 1 0 01.61-1.276z" clipRule="evenodd" />
+            </svg>
+        </button>
+    </div>
+  );
+};
+
+export default PlantPreview;
@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PlantPreset, PlantSettings } from '../types';
+import { renderThumbnail } from '../utils/thumbnail';
+import { randomSeed, uuid } from '../utils/random';
+import { loadPresets, savePresets } from '../utils/gardenStore';
+import { parsePresetFile, presetsToJson, trimPresetName } from '../utils/presets';
+import { downloadFile } from '../utils/download';
+
+interface PresetLibraryProps {
+  settings: PlantSettings;
+  onApply: (settings: PlantSettings) => void;
+}
+
+const THUMBNAIL_SIZE = 40;
+
+const PresetThumbnail: React.FC<{ preset: PlantPreset; onApply: () => void }> = ({ preset, onApply }) => (
+  <button
+      onClick={onApply}
+      className="shrink-0 w-10 h-10 rounded-lg border border-slate-200 bg-[#fdfbf7] overflow-hidden hover:border-slate-400 transition-colors"
+      title={`Use ${preset.name}`}
+  >
+      {preset.thumbnail
+          ? <img src={preset.thumbnail} alt="" className="w-full h-full object-contain" draggable={false} />
+          : <span className="block w-full h-full animate-pulse bg-slate-100" />}
+  </button>
+);
+
+const PresetRow: React.FC<{
+  preset: PlantPreset;
+  first: boolean;
+  last: boolean;
+  onApply: () => void;
+  onRename: (name: string) => void;
+  onMove: (direction: -1 | 1) => void;
+  onDelete: () => void;
+}> = ({ preset, first, last, onApply, onRename, onMove, onDelete }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+      if (draft !== null && trimPresetName(draft)) onRename(trimPresetName(draft));
+      setDraft(null);
+  };
+
+  return (
+    <li className="flex items-center gap-2">
+        <PresetThumbnail preset={preset} onApply={onApply} />
+        {draft === null ? (
+            <button onClick={() => setDraft(preset.name)} className="flex-1 min-w-0 text-left text-xs text-slate-600 truncate hover:text-slate-900" title="Rename">
+                {preset.name}
+            </button>
+        ) : (
+            <input
+                autoFocus
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter') commit();
+                    if (e.key === 'Escape') setDraft(null);
+                }}
+                className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded px-1.5 py-0.5 text-xs text-slate-700 focus:outline-none"
+            />
+        )}
+        <button onClick={() => onMove(-1)} disabled={first} className="text-slate-400 hover:text-slate-700 disabled:opacity-30 text-xs" title="Move up">↑</button>
+        <button onClick={() => onMove(1)} disabled={last} className="text-slate-400 hover:text-slate-700 disabled:opacity-30 text-xs" title="Move down">↓</button>
+        <button onClick={onDelete} className="text-slate-400 hover:text-rose-500 text-xs" title="Delete">×</button>
+    </li>
+  );
+};
+
+// The user's own named settings, kept in the browser. The built-in presets are the species buttons and cannot be changed.
+const PresetLibrary: React.FC<PresetLibraryProps> = ({ settings, onApply }) => {
+  // Null until the saved library has loaded, so an empty one is not saved over it
+  const [presets, setPresets] = useState<PlantPreset[] | null>(null);
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<{ text: string; problem: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // After a failed load the stored library may still be there, so nothing is saved over it
+  const loadFailedRef = useRef(false);
+
+  useEffect(() => {
+      let cancelled = false;
+      loadPresets()
+          .catch(e => {
+              console.error("Failed to load presets; changes will not be saved this session", e);
+              loadFailedRef.current = true;
+              return [];
+          })
+          .then(loaded => {
+              if (!cancelled) setPresets(loaded);
+          });
+      return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+      if (presets && !loadFailedRef.current) savePresets(presets).catch(e => console.error("Failed to save presets", e));
+  }, [presets]);
+
+  // Thumbnails missing after an import are grown one per frame so the sidebar never freezes
+  useEffect(() => {
+      const pending = presets?.find(p => p.thumbnail === undefined);
+      if (!pending) return;
+      const frame = requestAnimationFrame(() => {
+          const thumbnail = renderThumbnail(pending.settings, pending.seed, THUMBNAIL_SIZE);
+          setPresets(prev => prev && prev.map(p => p.id === pending.id ? { ...p, thumbnail } : p));
+      });
+      return () => cancelAnimationFrame(frame);
+  }, [presets]);
+
+  const update = (change: (list: PlantPreset[]) => PlantPreset[]) => setPresets(prev => prev && change(prev));
+
+  const save = () => {
+      const trimmed = trimPresetName(name);
+      if (!trimmed) return;
+      const seed = randomSeed();
+      const preset = { id: uuid(), name: trimmed, settings, seed, thumbnail: renderThumbnail(settings, seed, THUMBNAIL_SIZE) };
+      update(list => [...list, preset]);
+      setName('');
+      setMessage(null);
+  };
+
+  const move = (id: string, direction: -1 | 1) => update(list => {
+      const from = list.findIndex(p => p.id === id);
+      const to = from + direction;
+      if (from < 0 || to < 0 || to >= list.length) return list;
+      const next = [...list];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+  });
+
+  const remove = (preset: PlantPreset) => {
+      if (!window.confirm(`Delete the preset "${preset.name}"?`)) return;
+      update(list => list.filter(p => p.id !== preset.id));
+  };
+
+  const handleExport = () => {
+      if (!presets || presets.length === 0) return;
+      downloadFile('sketch-garden-presets.json', presetsToJson(presets), 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      // The same file can be picked again after fixing it
+      e.target.value = '';
+      if (!file) return;
+      let text: string;
+      try {
+          text = await file.text();
+      } catch (err) {
+          console.error("Failed to read preset file", err);
+          setMessage({ text: 'This file could not be read.', problem: true });
+          return;
+      }
+      const { presets: imported, problems } = parsePresetFile(text);
+      update(list => [...list, ...imported]);
+      const added = `Added ${imported.length} preset${imported.length === 1 ? '' : 's'}.`;
+      setMessage(problems.length > 0
+          ? { text: `${imported.length > 0 ? added + ' ' : ''}${problems.slice(0, 3).join(' ')}${problems.length > 3 ? ` …and ${problems.length - 3} more.` : ''}`, problem: true }
+          : { text: added, problem: false });
+  };
+
+  return (
+    <div className="mb-6">
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3">My Presets</h3>
+        {presets && presets.length > 0 && (
+            <ul className="space-y-2 mb-3">
+                {presets.map((preset, i) => (
+                    <PresetRow
+                        key={preset.id}
+                        preset={preset}
+                        first={i === 0}
+                        last={i === presets.length - 1}
+                        onApply={() => onApply(preset.settings)}
+                        onRename={(newName) => update(list => list.map(p => p.id === preset.id ? { ...p, name: newName } : p))}
+                        onMove={(direction) => move(preset.id, direction)}
+                        onDelete={() => remove(preset)}
+                    />
+                ))}
+            </ul>
+        )}
+        <div className="flex gap-2 mb-2">
+            <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && save()}
+                placeholder="Name these settings"
+                className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs text-slate-600 focus:outline-none"
+            />
+            <button
+                onClick={save}
+                disabled={!trimPresetName(name) || !presets}
+                className="bg-slate-50 hover:bg-slate-100 disabled:opacity-40 text-slate-600 px-3 rounded-lg text-xs font-medium transition-colors border border-slate-200"
+            >
+                Save
+            </button>
+        </div>
+        <div className="flex gap-2">
+            <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!presets}
+                className="flex-1 bg-slate-50 hover:bg-slate-100 disabled:opacity-40 text-slate-600 py-1.5 rounded-lg text-xs font-medium transition-colors border border-slate-200"
+                title="Add presets from an exported library, or from a text file with one DNA per line"
+            >
+                Import…
+            </button>
+            <button
+                onClick={handleExport}
+                disabled={!presets || presets.length === 0}
+                className="flex-1 bg-slate-50 hover:bg-slate-100 disabled:opacity-40 text-slate-600 py-1.5 rounded-lg text-xs font-medium transition-colors border border-slate-200"
+                title="Download your presets as a .json file"
+            >
+                Export
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,.txt,application/json,text/plain" onChange={handleImport} className="hidden" />
+        </div>
+        {message && (
+            <p className={`mt-2 text-xs ${message.problem ? 'text-rose-500' : 'text-slate-500'}`} role={message.problem ? 'alert' : 'status'}>{message.text}</p>
+        )}
+    </div>
+  );
+};
+
+export default PresetLibrary;
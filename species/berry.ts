@@ -0,0 +1,68 @@
+// Berry: twiggy, woody shrub bearing clusters of fruit
+
+import { lerpColor } from '../utils/color';
+import { DEFAULT_BRANCHING, DEFAULT_CROWN, DEFAULT_GRAMMAR, sideLeafAngle, steerNoisyUpright } from './shared';
+import { PlantSpecies, PlantSettings, PlantType } from '../types';
+
+// Berry: Twiggy, Woody, Red Fruits
+const preset: PlantSettings = {
+  type: PlantType.BERRY,
+  stemColorStart: '#422006', // Dark wood
+  stemColorEnd: '#a8a29e',   // Grey wood
+  baseWidth: 3,
+  growthSpeed: 3.5,
+  maxLife: 250,
+  curlFactor: 0.15, // Erratic
+  straightness: 0.3, 
+  
+  leafColorStart: '#3f6212', // Olive
+  leafColorEnd: '#166534',   // Green
+  leafFrequency: 0.05, // Sparse leaves
+  leafSize: 8, // Small
+
+  flowerColorStart: '#dc2626', // Red
+  flowerColorEnd: '#f97316',   // Orange
+  flowerProbability: 0.8,
+  flowerSize: 12,
+  petalCount: 5, // Used as berry count
+
+  ...DEFAULT_GRAMMAR,
+  ...DEFAULT_CROWN,
+
+  ...DEFAULT_BRANCHING,
+  branchChance: 0.04,
+  branchAngleOffset: 0.9,
+  noiseScale: 0.02, // A finer, faster-changing noise field than the default
+  noiseDrift: 0.05,
+};
+
+export const berry: PlantSpecies = {
+  id: PlantType.BERRY,
+  label: 'Berry',
+  preset,
+  sensitivity: { wind: 0.8, light: 0.7, gravity: 1.2 },
+  extraGenes: ['branching'],
+  steer: steerNoisyUpright,
+  leafAngle: sideLeafAngle,
+  drawLeaf: (ctx, size) => {
+    ctx.ellipse(size/2, 0, size/2, size/4, 0, 0, Math.PI * 2);
+    ctx.fill();
+  },
+  // Glossy berries scattered around the tip; `petals` is the berry count
+  drawFlower: (ctx, { size, startColor, endColor, petals }, random) => {
+    const berryCount = Math.floor(petals) || 3;
+    for(let i=0; i < berryCount; i++) {
+       const bx = (random() - 0.5) * size;
+       const by = (random() - 0.5) * size;
+       const berrySize = size / 3.5;
+       ctx.beginPath();
+       ctx.fillStyle = lerpColor(startColor, endColor, random());
+       ctx.arc(bx, by, berrySize, 0, Math.PI * 2);
+       ctx.fill();
+       ctx.fillStyle = 'rgba(255,255,255,0.4)';
+       ctx.beginPath();
+       ctx.arc(bx - berrySize/3, by - berrySize/3, berrySize/4, 0, Math.PI * 2);
+       ctx.fill();
+    }
+  },
+};
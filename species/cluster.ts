@@ -0,0 +1,78 @@
+// Cluster: bushy stems topped with clouds of tiny florets
+
+import { lerpColor } from '../utils/color';
+import { DEFAULT_BRANCHING, DEFAULT_CROWN, DEFAULT_GRAMMAR, sideLeafAngle, steerNoisyUpright } from './shared';
+import { PlantSpecies, PlantSettings, PlantType } from '../types';
+
+// Cluster: Bushy, Cool Tones, Blue Flower Clusters
+const preset: PlantSettings = {
+  type: PlantType.CLUSTER,
+  stemColorStart: '#334155', // Slate 700
+  stemColorEnd: '#94a3b8',   // Slate 400
+  baseWidth: 5,
+  growthSpeed: 3,
+  maxLife: 260,
+  curlFactor: 0.1, // Wavy
+  straightness: 0.5, 
+  
+  leafColorStart: '#0f766e', // Teal 700
+  leafColorEnd: '#5eead4',   // Teal 300
+  leafFrequency: 0.08, 
+  leafSize: 10,
+
+  flowerColorStart: '#93c5fd', // Blue 300
+  flowerColorEnd: '#1e3a8a',   // Blue 900
+  flowerProbability: 0.85,
+  flowerSize: 24, // Size of the whole cluster
+  petalCount: 12, // Number of florets in cluster
+
+  ...DEFAULT_GRAMMAR,
+  ...DEFAULT_CROWN,
+
+  ...DEFAULT_BRANCHING,
+  branchChance: 0.025,
+  branchAngleOffset: 0.5,
+  noiseScale: 0.02, // A finer, faster-changing noise field than the default
+  noiseDrift: 0.05,
+};
+
+export const cluster: PlantSpecies = {
+  id: PlantType.CLUSTER,
+  label: 'Cluster',
+  preset,
+  sensitivity: { wind: 0.7, light: 1, gravity: 0.6 },
+  extraGenes: ['branching'],
+  steer: steerNoisyUpright,
+  leafAngle: sideLeafAngle,
+  // Short, wide, somewhat teardrop shaped leaf
+  drawLeaf: (ctx, size) => {
+    ctx.moveTo(0,0);
+    ctx.quadraticCurveTo(size/2, -size/3, size, 0);
+    ctx.quadraticCurveTo(size/2, size/3, 0, 0);
+    ctx.fill();
+    ctx.strokeStyle = "rgba(0,0,0,0.1)";
+    ctx.lineWidth = 0.5;
+    ctx.beginPath();
+    ctx.moveTo(0,0);
+    ctx.lineTo(size*0.8, 0);
+    ctx.stroke();
+  },
+  // Many small florets in a circular cloud
+  drawFlower: (ctx, { size, startColor, endColor, petals }, random) => {
+    const floretCount = Math.max(8, petals * 2);
+    for(let i=0; i < floretCount; i++) {
+        // Random point in circle
+        const r = size * Math.sqrt(random());
+        const theta = random() * 2 * Math.PI;
+        const fx = r * Math.cos(theta);
+        const fy = r * Math.sin(theta);
+        
+        const floretSize = size / 5 * (0.8 + random() * 0.4);
+        
+        ctx.beginPath();
+        ctx.fillStyle = lerpColor(startColor, endColor, random());
+        ctx.arc(fx, fy, floretSize, 0, Math.PI * 2);
+        ctx.fill();
+    }
+  },
+};
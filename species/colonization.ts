@@ -0,0 +1,263 @@
+// Space colonization: attractor points are scattered through a crown and every branch tip grows toward
+// the attractors nearest to it, consuming them as it arrives, so the canopy fills its space without crowding itself.
+
+import { createGrower } from '../utils/growth';
+import { insideCrown } from '../utils/crown';
+import { lerpColor } from '../utils/color';
+import { DEFAULT_BRANCHING, DEFAULT_GRAMMAR, drawPetalRing, sideLeafAngle } from './shared';
+import { Grower, PlantSpecies, PlantSettings, PlantType, Point, Rect } from '../types';
+
+// Canopy: a broadleaf tree
+const preset: PlantSettings = {
+  type: PlantType.CANOPY,
+  stemColorStart: '#57534e', // Stone 600
+  stemColorEnd: '#a8a29e',   // Stone 400
+  baseWidth: 9,
+  growthSpeed: 1,
+  maxLife: 280, // Height of the tree in pixels
+  curlFactor: 0.2, // Jitter on every new segment
+  straightness: 1,
+
+  leafColorStart: '#166534', // Green 800
+  leafColorEnd: '#86efac',   // Green 300
+  leafFrequency: 0.45,
+  leafSize: 8,
+
+  flowerColorStart: '#fef9c3',
+  flowerColorEnd: '#fde047',
+  flowerProbability: 0.1,
+  flowerSize: 5,
+  petalCount: 5,
+
+  ...DEFAULT_GRAMMAR,
+
+  crownShape: 'ellipse',
+  attractorDensity: 12,
+  killDistance: 10,
+  segmentLength: 5,
+
+  ...DEFAULT_BRANCHING,
+  branchChance: 0,
+  branchAngleOffset: 0,
+};
+
+// Attractors pull on the nearest branch node within this many kill distances
+const INFLUENCE = 6;
+const MAX_ATTRACTORS = 2000;
+// Share of the height taken by bare trunk below the crown
+const TRUNK = 0.3;
+// Extra ticks without consuming an attractor, beyond the time a tip needs to cross the influence radius,
+// before the crown counts as full; tips caught between two attractors otherwise keep sprouting forever
+const STALL = 4;
+
+interface Node extends Point {
+  angle: number;
+  at: number; // Stem length from the root
+  branch: string; // growerId of its segments, so stems export as continuous paths
+  children: number;
+}
+
+interface CrownState {
+  attractors: Point[];
+  nodes: Node[];
+  trunk: Node; // Climbs toward the crown while no attractor is in reach yet
+  crownBottom: number;
+  reach: number; // Expected stem length to the far side of the crown, for tapering and coloring
+  branches: number;
+  idle: number; // Ticks in a row in which no attractor was consumed
+  grid: Map<string, Node[]>; // Nodes bucketed by influence-sized cells, so only neighbouring cells are searched
+}
+
+const cellKey = (x: number, y: number) => `${x},${y}`;
+
+const addNode = (state: CrownState, node: Node, cell: number) => {
+  state.nodes.push(node);
+  const key = cellKey(Math.floor(node.x / cell), Math.floor(node.y / cell));
+  const bucket = state.grid.get(key);
+  if (bucket) bucket.push(node);
+  else state.grid.set(key, [node]);
+};
+
+// The node nearest to a point, if any lies within one cell size of it
+const nearestNode = (state: CrownState, p: Point, cell: number) => {
+  const cx = Math.floor(p.x / cell);
+  const cy = Math.floor(p.y / cell);
+  let nearest: Node | null = null;
+  let best = cell;
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dy = -1; dy <= 1; dy++) {
+      state.grid.get(cellKey(cx + dx, cy + dy))?.forEach(node => {
+        const d = Math.hypot(p.x - node.x, p.y - node.y);
+        if (d < best) {
+          best = d;
+          nearest = node;
+        }
+      });
+    }
+  }
+  return { node: nearest as Node | null, distance: best };
+}
+
+// The crown's box in plant-local coordinates: above a bare trunk, or filling the plant's space (its bottle) when it has one
+const crownBox = (settings: PlantSettings, space?: Rect): Rect => {
+  const margin = settings.killDistance;
+  if (space) {
+    const height = space.height - margin * 2;
+    return { x: space.x + margin, y: space.y + margin, width: space.width - margin * 2, height: height * (1 - TRUNK) };
+  }
+  const height = settings.maxLife * (1 - TRUNK);
+  const width = settings.maxLife * 0.8;
+  return { x: -width / 2, y: -settings.maxLife, width, height };
+};
+
+const scatterAttractors = (settings: PlantSettings, box: Rect, random: Grower['random']) => {
+  const count = Math.min(MAX_ATTRACTORS, Math.round((settings.attractorDensity * box.width * box.height) / 2500));
+  const attractors: Point[] = [];
+  for (let i = 0; i < count; i++) {
+    const u = random() * 2 - 1;
+    const v = random();
+    if (insideCrown(settings.crownShape, u, v)) {
+      attractors.push({ x: box.x + ((u + 1) / 2) * box.width, y: box.y + (1 - v) * box.height });
+    }
+  }
+  return attractors;
+};
+
+const finish = (grower: Grower, state: CrownState) => {
+  const { settings, random, scene } = grower;
+  state.nodes.forEach(node => {
+    if (node.children > 0 || node.at === 0) return;
+    if (random() < settings.flowerProbability) {
+      scene.push({
+        kind: 'bloom',
+        x: node.x,
+        y: node.y,
+        size: settings.flowerSize * (0.85 + random() * 0.3),
+        startColor: settings.flowerColorStart,
+        endColor: settings.flowerColorEnd,
+        petals: settings.petalCount,
+        type: settings.type,
+        seed: Math.floor(random() * 4294967296)
+      });
+    }
+  });
+  grower.life = grower.maxLife + settings.linger;
+};
+
+const extend = (grower: Grower, state: CrownState, from: Node, angle: number) => {
+  const { settings, random, scene } = grower;
+  const node: Node = {
+    x: from.x + Math.cos(angle) * settings.segmentLength,
+    y: from.y + Math.sin(angle) * settings.segmentLength,
+    angle,
+    at: from.at + settings.segmentLength,
+    branch: from.children === 0 ? from.branch : `${grower.id}-${++state.branches}`,
+    children: 0
+  };
+  from.children++;
+  addNode(state, node, settings.killDistance * INFLUENCE);
+
+  const progress = Math.min(1, node.at / state.reach);
+  scene.push({
+    kind: 'segment',
+    growerId: node.branch,
+    x1: from.x,
+    y1: from.y,
+    x2: node.x,
+    y2: node.y,
+    width: Math.max(0.5, settings.baseWidth * (1 - progress)),
+    color: lerpColor(settings.stemColorStart, settings.stemColorEnd, progress)
+  });
+  if (random() < settings.leafFrequency) {
+    scene.push({
+      kind: 'leaf',
+      x: node.x,
+      y: node.y,
+      angle: angle + sideLeafAngle(grower),
+      size: settings.leafSize * (0.8 + random() * 0.4),
+      color: lerpColor(settings.leafColorStart, settings.leafColorEnd, progress),
+      type: settings.type
+    });
+  }
+  return node;
+};
+
+export const colonization: PlantSpecies = {
+  id: PlantType.CANOPY,
+  label: 'Canopy',
+  preset,
+  // Branching comes from the attractors, so the wandering-stem hooks are never called
+  steer: () => undefined,
+  leafAngle: sideLeafAngle,
+  // Small rounded leaf, so dense canopies read as foliage rather than as spikes
+  drawLeaf: (ctx, size) => {
+    ctx.moveTo(0, 0);
+    ctx.quadraticCurveTo(size * 0.3, -size * 0.5, size, 0);
+    ctx.quadraticCurveTo(size * 0.3, size * 0.5, 0, 0);
+    ctx.fill();
+  },
+  drawFlower: drawPetalRing,
+  extraGenes: ['crown'],
+
+  sow: (settings, scene, random, noise, space) => {
+    const grower = createGrower(0, 0, settings, scene, random, noise);
+    const box = crownBox(settings, space);
+    const attractors = scatterAttractors(settings, box, random);
+    const root: Node = { x: 0, y: 0, angle: grower.angle, at: 0, branch: grower.id, children: 0 };
+    const reach = Math.max(settings.segmentLength, ...attractors.map(a => Math.hypot(a.x, a.y))) * 1.15;
+    const state: CrownState = { attractors, nodes: [], trunk: root, crownBottom: box.y + box.height, reach, branches: 0, idle: 0, grid: new Map() };
+    addNode(state, root, settings.killDistance * INFLUENCE);
+    grower.state = state;
+    return [grower];
+  },
+
+  grow: (grower) => {
+    const state = grower.state as CrownState;
+    const { settings, random } = grower;
+    grower.life++;
+    if (state.attractors.length === 0 || grower.life >= grower.maxLife) {
+      finish(grower, state);
+      return;
+    }
+
+    // Each attractor pulls on its nearest node, or is consumed when a node has reached it
+    const influence = settings.killDistance * INFLUENCE;
+    const pulls = new Map<Node, Point>();
+    const before = state.attractors.length;
+    state.attractors = state.attractors.filter(a => {
+      const { node, distance } = nearestNode(state, a, influence);
+      if (!node) return true;
+      if (distance < settings.killDistance) return false;
+      const pull = pulls.get(node) ?? { x: 0, y: 0 };
+      pull.x += (a.x - node.x) / distance;
+      pull.y += (a.y - node.y) / distance;
+      pulls.set(node, pull);
+      return true;
+    });
+
+    if (pulls.size === 0) {
+      // Nothing in reach: the trunk keeps climbing until it enters the crown, after which growth has stalled
+      if (state.trunk.y <= state.crownBottom) {
+        finish(grower, state);
+        return;
+      }
+      const jitter = (random() - 0.5) * settings.curlFactor * 0.25;
+      state.trunk = extend(grower, state, state.trunk, -Math.PI / 2 + jitter);
+      return;
+    }
+
+    state.idle = state.attractors.length < before ? 0 : state.idle + 1;
+    if (state.idle >= Math.ceil(influence / settings.segmentLength) + STALL) {
+      finish(grower, state);
+      return;
+    }
+
+    pulls.forEach((pull, node) => {
+      // Opposite attractors can cancel out; the node then waits for the others to be consumed
+      if (Math.hypot(pull.x, pull.y) < 1e-6) return;
+      const angle = Math.atan2(pull.y, pull.x) + (random() - 0.5) * settings.curlFactor;
+      const grown = extend(grower, state, node, angle);
+      if (node === state.trunk) state.trunk = grown;
+    });
+  },
+};
@@ -0,0 +1,78 @@
+// Geometric: angular zig-zag stems with faceted leaves and star blooms
+
+import { lerpColor } from '../utils/color';
+import { DEFAULT_BRANCHING, DEFAULT_CROWN, DEFAULT_GRAMMAR } from './shared';
+import { PlantSpecies, PlantSettings, PlantType } from '../types';
+
+// Geometric: Sharp, Linear, Cool Blues/Greys
+const preset: PlantSettings = {
+  type: PlantType.GEOMETRIC,
+  stemColorStart: '#475569', // Slate
+  stemColorEnd: '#94a3b8',   // Light slate
+  baseWidth: 4,
+  growthSpeed: 4,
+  maxLife: 300,
+  curlFactor: 0, // Unused in geometric
+  straightness: 0.9, 
+  
+  leafColorStart: '#e2e8f0', 
+  leafColorEnd: '#64748b',   
+  leafFrequency: 0.15,
+  leafSize: 10,
+
+  flowerColorStart: '#e0f2fe', 
+  flowerColorEnd: '#0ea5e9',   
+  flowerProbability: 0.6,
+  flowerSize: 15,
+  petalCount: 9,
+
+  ...DEFAULT_GRAMMAR,
+  ...DEFAULT_CROWN,
+
+  ...DEFAULT_BRANCHING,
+  branchChance: 0.04,
+  branchAngleOffset: 0.8,
+};
+
+export const geometric: PlantSpecies = {
+  id: PlantType.GEOMETRIC,
+  label: 'Geometric',
+  preset,
+  sensitivity: { wind: 0.2, light: 0.5, gravity: 0 },
+  extraGenes: ['branching'],
+  // Snaps between 30 degree headings while easing back to vertical
+  steer: (grower) => {
+    if (grower.random() < 0.05) { 
+      grower.angle += (grower.random() > 0.5 ? 1 : -1) * (Math.PI / 6); 
+    }
+    const targetAngle = -Math.PI / 2;
+    grower.angle += (targetAngle - grower.angle) * 0.02;
+  },
+  leafAngle: (grower) => grower.random() > 0.5 ? Math.PI/2 : -Math.PI/2,
+  drawLeaf: (ctx, size) => {
+    ctx.moveTo(0, 0);
+    ctx.lineTo(size, -size/3);
+    ctx.lineTo(size * 1.5, 0);
+    ctx.lineTo(size, size/3);
+    ctx.lineTo(0, 0);
+    ctx.fill();
+    ctx.strokeStyle = "rgba(0,0,0,0.1)";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0,0);
+    ctx.lineTo(size * 1.5, 0);
+    ctx.stroke();
+  },
+  // Star polygon alternating long and short points
+  drawFlower: (ctx, { size, startColor, endColor, petals }) => {
+    ctx.fillStyle = lerpColor(startColor, endColor, 0.5);
+    ctx.beginPath();
+    for(let i=0; i<petals * 2; i++) {
+       const r = (i % 2 === 0) ? size : size/3;
+       const a = (i * Math.PI) / petals;
+       ctx.lineTo(Math.cos(a) * r, Math.sin(a) * r);
+    }
+    ctx.closePath();
+    ctx.fill();
+  },
+};
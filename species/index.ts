@@ -0,0 +1,29 @@
+// Registry of plant species. Everything that needs to know about kinds of plants (growth, painting,
+// the species buttons, DNA validation) looks them up here, so a new species only has to be registered.
+
+import { PlantSpecies, SpeciesId } from '../types';
+import { vine } from './vine';
+import { palm } from './palm';
+import { geometric } from './geometric';
+import { umbrella } from './umbrella';
+import { berry } from './berry';
+import { cluster } from './cluster';
+import { lsystem } from './lsystem';
+import { colonization } from './colonization';
+
+const registry = new Map<SpeciesId, PlantSpecies>();
+
+export const registerSpecies = (species: PlantSpecies) => {
+  registry.set(species.id, species);
+};
+
+// In registration order, which is the order of the species buttons
+export const listSpecies = (): PlantSpecies[] => Array.from(registry.values());
+
+export const hasSpecies = (id: unknown): id is SpeciesId =>
+  typeof id === 'string' && registry.has(id);
+
+// Unknown ids fall back to the vine so stray scene elements still paint
+export const getSpecies = (id: SpeciesId): PlantSpecies => registry.get(id) ?? vine;
+
+[vine, palm, geometric, umbrella, berry, cluster, lsystem, colonization].forEach(registerSpecies);
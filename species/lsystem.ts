@@ -0,0 +1,197 @@
+// L-system: the plant's shape is rewritten from a grammar in its genes, then drawn by a turtle.
+// The whole plant is planned when it is sown and revealed by path length, so it still grows tick by tick.
+//
+// Turtle symbols: F and G draw a stem, + and - turn by the angle gene, | turns around,
+// [ and ] start and end a branch. Every other symbol only takes part in rewriting.
+
+import { createGrower } from '../utils/growth';
+import { expand, parseRules } from '../utils/lsystem';
+import { lerpColor } from '../utils/color';
+import { DEFAULT_BRANCHING, DEFAULT_CROWN, drawPetalRing, drawPointedLeaf, sideLeafAngle } from './shared';
+import { Grower, PlantSpecies, PlantSettings, PlantType, SceneElement } from '../types';
+
+// Fern: fine fronds from the classic fractal plant grammar
+const preset: PlantSettings = {
+  type: PlantType.LSYSTEM,
+  stemColorStart: '#65a30d', // Lime 600
+  stemColorEnd: '#bef264',   // Lime 300
+  baseWidth: 4,
+  growthSpeed: 2,
+  maxLife: 200,
+  curlFactor: 0.1, // Jitter on every turn, so no two ferns are identical
+  straightness: 1,
+
+  leafColorStart: '#4d7c0f', // Lime 700
+  leafColorEnd: '#a3e635',   // Lime 400
+  leafFrequency: 0.05,
+  leafSize: 6,
+
+  flowerColorStart: '#fde68a',
+  flowerColorEnd: '#f9a8d4',
+  flowerProbability: 0.05,
+  flowerSize: 6,
+  petalCount: 5,
+
+  lsystemAxiom: 'X',
+  lsystemRules: 'X=F+[[X]-X]-F[-FX]+X; F=FF',
+  lsystemIterations: 5,
+  lsystemAngle: 25,
+
+  ...DEFAULT_CROWN,
+
+  ...DEFAULT_BRANCHING,
+  branchChance: 0,
+  branchAngleOffset: 0,
+};
+
+// Geometry in turtle steps; `at` is the distance along the stems from the root where it appears
+type Mark =
+  | { kind: 'segment'; growerId: string; x1: number; y1: number; x2: number; y2: number; depth: number; at: number }
+  | { kind: 'leaf'; x: number; y: number; angle: number; size: number; at: number }
+  | { kind: 'bloom'; x: number; y: number; size: number; seed: number; at: number };
+
+interface Planned {
+  at: number; // In pixels of stem grown, compared against life * speed
+  element: SceneElement;
+}
+
+interface GrammarState {
+  plan: Planned[];
+  next: number; // First planned element not yet in the scene
+}
+
+interface Turtle {
+  x: number;
+  y: number;
+  angle: number;
+  at: number;
+  depth: number;
+  branch: string;
+  drawn: boolean; // Whether this branch has drawn anything yet, so empty branches do not bloom
+}
+
+// Walks the rewritten program once, taking every random decision in program order
+const interpret = (program: string, grower: Grower): Planned[] => {
+  const { settings, random } = grower;
+  const turn = (settings.lsystemAngle * Math.PI) / 180;
+  const marks: Mark[] = [];
+  const stack: Turtle[] = [];
+  let branches = 0;
+  let turtle: Turtle = { x: 0, y: 0, angle: grower.angle, at: 0, depth: 0, branch: grower.id, drawn: false };
+
+  const tip = () => {
+    if (turtle.drawn && random() < settings.flowerProbability) {
+      marks.push({
+        kind: 'bloom',
+        x: turtle.x,
+        y: turtle.y,
+        size: settings.flowerSize * (0.85 + random() * 0.3),
+        seed: Math.floor(random() * 4294967296),
+        at: turtle.at
+      });
+    }
+  };
+
+  for (const ch of program) {
+    if (ch === 'F' || ch === 'G') {
+      const x2 = turtle.x + Math.cos(turtle.angle);
+      const y2 = turtle.y + Math.sin(turtle.angle);
+      marks.push({ kind: 'segment', growerId: turtle.branch, x1: turtle.x, y1: turtle.y, x2, y2, depth: turtle.depth, at: turtle.at + 1 });
+      if (random() < settings.leafFrequency) {
+        const angle = turtle.angle + sideLeafAngle(grower);
+        marks.push({ kind: 'leaf', x: turtle.x, y: turtle.y, angle, size: settings.leafSize * (0.8 + random() * 0.4), at: turtle.at });
+      }
+      turtle = { ...turtle, x: x2, y: y2, at: turtle.at + 1, drawn: true };
+    } else if (ch === '+' || ch === '-') {
+      const jitter = (random() - 0.5) * settings.curlFactor;
+      turtle.angle += (ch === '+' ? turn : -turn) + jitter;
+    } else if (ch === '|') {
+      turtle.angle += Math.PI;
+    } else if (ch === '[') {
+      stack.push(turtle);
+      turtle = { ...turtle, depth: turtle.depth + 1, branch: `${grower.id}-${++branches}`, drawn: false };
+    } else if (ch === ']') {
+      const parent = stack.pop();
+      if (!parent) continue;
+      tip();
+      turtle = parent;
+    }
+  }
+  tip();
+
+  // Scale so the longest path from the root takes maxLife ticks to grow, like a default stem
+  const longest = Math.max(1, ...marks.map(m => m.at));
+  const scale = (settings.maxLife * settings.growthSpeed) / longest;
+
+  const plan: Planned[] = marks.map(mark => {
+    const progress = mark.at / longest;
+    const at = mark.at * scale;
+    if (mark.kind === 'segment') {
+      return { at, element: {
+        kind: 'segment',
+        growerId: mark.growerId,
+        x1: mark.x1 * scale,
+        y1: mark.y1 * scale,
+        x2: mark.x2 * scale,
+        y2: mark.y2 * scale,
+        width: Math.max(0.5, (settings.baseWidth / (mark.depth + 1)) * (1 - progress)),
+        color: lerpColor(settings.stemColorStart, settings.stemColorEnd, progress)
+      } };
+    }
+    if (mark.kind === 'leaf') {
+      return { at, element: {
+        kind: 'leaf',
+        x: mark.x * scale,
+        y: mark.y * scale,
+        angle: mark.angle,
+        size: mark.size,
+        color: lerpColor(settings.leafColorStart, settings.leafColorEnd, progress),
+        type: settings.type
+      } };
+    }
+    return { at, element: {
+      kind: 'bloom',
+      x: mark.x * scale,
+      y: mark.y * scale,
+      size: mark.size,
+      startColor: settings.flowerColorStart,
+      endColor: settings.flowerColorEnd,
+      petals: settings.petalCount,
+      type: settings.type,
+      seed: mark.seed
+    } };
+  });
+  // Stable, so elements planned at the same distance keep program order
+  return plan.sort((a, b) => a.at - b.at);
+};
+
+export const lsystem: PlantSpecies = {
+  id: PlantType.LSYSTEM,
+  label: 'L-System',
+  preset,
+  // Branching comes from the grammar, so the wandering-stem hooks are never called
+  steer: () => undefined,
+  leafAngle: sideLeafAngle,
+  drawLeaf: drawPointedLeaf,
+  drawFlower: drawPetalRing,
+  extraGenes: ['grammar'],
+
+  sow: (settings, scene, random, noise) => {
+    const grower = createGrower(0, 0, settings, scene, random, noise);
+    const { productions } = parseRules(settings.lsystemRules);
+    const program = expand(settings.lsystemAxiom, productions, settings.lsystemIterations, random);
+    const state: GrammarState = { plan: interpret(program, grower), next: 0 };
+    grower.state = state;
+    return [grower];
+  },
+
+  // Reveals everything planned within the stem length grown so far
+  grow: (grower) => {
+    const state = grower.state as GrammarState;
+    const reach = grower.life >= grower.maxLife ? Infinity : (grower.life + 1) * grower.speed;
+    while (state.next < state.plan.length && state.plan[state.next].at <= reach) {
+      grower.scene.push(state.plan[state.next++].element);
+    }
+    grower.life++;
+  },
+};
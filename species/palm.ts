@@ -0,0 +1,62 @@
+// Palm: a tall trunk carrying fan-shaped fronds
+
+import { DEFAULT_BRANCHING, DEFAULT_CROWN, DEFAULT_GRAMMAR, drawPetalRing, steerStraightThenCurl } from './shared';
+import { PlantSpecies, PlantSettings, PlantType } from '../types';
+
+// Palm: Big leaves, Thick stem, Earthy Greens
+const preset: PlantSettings = {
+  type: PlantType.PALM,
+  stemColorStart: '#78716c', // Stone grey/brown
+  stemColorEnd: '#65a30d',   // Olive
+  baseWidth: 10,
+  growthSpeed: 2.5,
+  maxLife: 350,
+  curlFactor: 0.05,
+  straightness: 0.7, 
+  
+  leafColorStart: '#d9f99d', // Light moss
+  leafColorEnd: '#14532d',   // Dark green
+  leafFrequency: 0.05, // Rarer
+  leafSize: 35, // Huge
+
+  flowerColorStart: '#fdba74', // Orange
+  flowerColorEnd: '#fcd34d',   // Yellow
+  flowerProbability: 0.4,
+  flowerSize: 25,
+  petalCount: 5,
+
+  ...DEFAULT_GRAMMAR,
+  ...DEFAULT_CROWN,
+
+  ...DEFAULT_BRANCHING,
+  branchChance: 0.005,
+  branchAngleOffset: 0.6,
+};
+
+export const palm: PlantSpecies = {
+  id: PlantType.PALM,
+  label: 'Palm',
+  preset,
+  sensitivity: { wind: 0.5, light: 0.6, gravity: 0.3 },
+  extraGenes: ['branching'],
+  steer: steerStraightThenCurl,
+  // Fronds fan out at 60 degrees on alternating sides
+  leafAngle: (grower) => grower.random() > 0.5 ? Math.PI/3 : -Math.PI/3,
+  drawLeaf: (ctx, size) => {
+    const spread = Math.PI / 1.5;
+    ctx.moveTo(0, 0);
+    ctx.arc(0, 0, size, -spread/2, spread/2);
+    ctx.lineTo(0, 0);
+    ctx.fill();
+    ctx.strokeStyle = "rgba(255,255,255,0.3)";
+    ctx.lineWidth = 0.5;
+    for(let i = -2; i <= 2; i++) {
+       ctx.beginPath();
+       ctx.moveTo(0,0);
+       const a = (i * spread) / 6;
+       ctx.lineTo(Math.cos(a) * size * 0.9, Math.sin(a) * size * 0.9);
+       ctx.stroke();
+    }
+  },
+  drawFlower: drawPetalRing,
+};
@@ -0,0 +1,92 @@
+// Steering behaviours and painters shared by several built-in species
+
+import { lerpColor } from '../utils/color';
+import type { PaintContext } from '../utils/render';
+import { BloomShape, Grower, PlantSettings } from '../types';
+
+const UP = -Math.PI / 2;
+
+// Grammar genes for species that grow as wandering stems; they only matter once the species is switched
+export const DEFAULT_GRAMMAR = {
+  lsystemAxiom: 'F',
+  lsystemRules: 'F=F[+F]F[-F]F',
+  lsystemIterations: 4,
+  lsystemAngle: 25,
+};
+
+// Likewise for the space-colonization genes
+export const DEFAULT_CROWN: Pick<PlantSettings, 'crownShape' | 'attractorDensity' | 'killDistance' | 'segmentLength'> = {
+  crownShape: 'ellipse',
+  attractorDensity: 12,
+  killDistance: 10,
+  segmentLength: 5,
+};
+
+// Branching genes of a stem that forks twice at most, each fork shorter and thinner by the same share as the last.
+// Species set their own branchChance and branchAngleOffset.
+export const DEFAULT_BRANCHING: Pick<PlantSettings, 'branchGenerations' | 'branchShortening' | 'branchThinning' | 'linger' | 'noiseScale' | 'noiseDrift'> = {
+  branchGenerations: 2,
+  branchShortening: 1,
+  branchThinning: 1,
+  linger: 50,
+  noiseScale: 0.01,
+  noiseDrift: 0.02,
+};
+
+// Grows straight up for the first `straightness` of its life, then curls along the noise field
+export const steerStraightThenCurl = (grower: Grower, progress: number) => {
+  const { settings, random, noise, life } = grower;
+  if (progress < settings.straightness) {
+    const correction = (UP - grower.angle) * 0.1;
+    const wobble = (random() - 0.5) * 0.05;
+    grower.angle += correction + wobble;
+  } else {
+    const n = noise.noise(grower.x * settings.noiseScale, grower.y * settings.noiseScale, grower.noiseOffset + life * settings.noiseDrift);
+    grower.angle += n * settings.curlFactor;
+  }
+};
+
+// Wanders along the noise field (finer in the species that use it) while being pulled steadily back upwards
+export const steerNoisyUpright = (grower: Grower) => {
+  const { settings, noise, life } = grower;
+  const n = noise.noise(grower.x * settings.noiseScale, grower.y * settings.noiseScale, grower.noiseOffset + life * settings.noiseDrift);
+  grower.angle += n * (settings.curlFactor * 2);
+  grower.angle += (UP - grower.angle) * 0.05;
+};
+
+// Leaves alternate sides at roughly a right angle to the stem
+export const sideLeafAngle = (grower: Grower) =>
+  (grower.random() > 0.5 ? Math.PI / 2 : -Math.PI / 2) + (grower.random() * 0.5 - 0.25);
+
+// Classic pointed leaf with a faint midrib
+export const drawPointedLeaf = (ctx: PaintContext, size: number) => {
+  ctx.moveTo(0, 0);
+  ctx.bezierCurveTo(size / 2, -size / 2, size, -size / 4, size, 0);
+  ctx.bezierCurveTo(size, size / 4, size / 2, size / 2, 0, 0);
+  ctx.fill();
+  ctx.strokeStyle = "rgba(0,0,0,0.1)";
+  ctx.lineWidth = 0.5;
+  ctx.beginPath();
+  ctx.moveTo(0,0);
+  ctx.lineTo(size * 0.8, 0);
+  ctx.stroke();
+};
+
+// Ring of elliptical petals shading from start to end color around an amber center
+export const drawPetalRing = (ctx: PaintContext, { size, startColor, endColor, petals }: BloomShape) => {
+  const angleStep = (Math.PI * 2) / petals;
+  for (let i = 0; i < petals; i++) {
+    const petalColor = lerpColor(startColor, endColor, i / petals);
+    ctx.fillStyle = petalColor;
+    ctx.save();
+    ctx.rotate(i * angleStep);
+    ctx.beginPath();
+    ctx.ellipse(size/1.5, 0, size/1.5, size/4, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  }
+  ctx.fillStyle = '#f59e0b'; // Amber
+  ctx.beginPath();
+  ctx.arc(0, 0, size/4, 0, Math.PI * 2);
+  ctx.fill();
+};
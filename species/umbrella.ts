@@ -0,0 +1,78 @@
+// Umbrella: one tall stalk with huge leaves and a single spathe
+
+import { lerpColor } from '../utils/color';
+import { DEFAULT_BRANCHING, DEFAULT_CROWN, DEFAULT_GRAMMAR, steerStraightThenCurl } from './shared';
+import { PlantSpecies, PlantSettings, PlantType } from '../types';
+
+// Umbrella: Tall, Solitary, Huge top leaf/bloom
+const preset: PlantSettings = {
+  type: PlantType.UMBRELLA,
+  stemColorStart: '#064e3b', // Dark Emerald
+  stemColorEnd: '#34d399',   // Light Green
+  baseWidth: 8,
+  growthSpeed: 3,
+  maxLife: 400,
+  curlFactor: 0.03, // Very straight
+  straightness: 0.8, 
+  
+  leafColorStart: '#047857', 
+  leafColorEnd: '#6ee7b7',   
+  leafFrequency: 0.01, // Very Rare side leaves
+  leafSize: 45, // Massive
+
+  flowerColorStart: '#fef3c7', // Cream
+  flowerColorEnd: '#fffbeb',   // White
+  flowerProbability: 0.9, // Almost always blooms at top
+  flowerSize: 40,
+  petalCount: 1, // Special rendering for 1 petal (spathe)
+
+  ...DEFAULT_GRAMMAR,
+  ...DEFAULT_CROWN,
+
+  ...DEFAULT_BRANCHING,
+  branchChance: 0.002,
+  branchAngleOffset: 0.6,
+};
+
+export const umbrella: PlantSpecies = {
+  id: PlantType.UMBRELLA,
+  label: 'Umbrella',
+  preset,
+  sensitivity: { wind: 0.6, light: 0.9, gravity: 0.8 },
+  extraGenes: ['branching'],
+  steer: steerStraightThenCurl,
+  leafAngle: (grower) => grower.random() - 0.5,
+  // Broad heart-shaped leaf hanging from its tip
+  drawLeaf: (ctx, size) => {
+    ctx.rotate(-Math.PI / 2);
+    const w = size;
+    const h = size * 1.2;
+    ctx.moveTo(0, 0);
+    ctx.bezierCurveTo(-w/2, -h/4, -w, h/2, 0, h);
+    ctx.bezierCurveTo(w, h/2, w/2, -h/4, 0, 0);
+    ctx.fill();
+    ctx.strokeStyle = "rgba(255,255,255,0.2)";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.lineTo(0, h * 0.9);
+    ctx.stroke();
+  },
+  // A single spathe wrapped around a spadix
+  drawFlower: (ctx, { size, startColor, endColor }, random) => {
+    ctx.rotate(random() - 0.5);
+    ctx.fillStyle = lerpColor(startColor, endColor, 0.2); 
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.bezierCurveTo(-size/2, -size, -size*1.5, -size, 0, -size*2);
+    ctx.bezierCurveTo(size*1.5, -size, size/2, -size, 0, 0);
+    ctx.fill();
+    ctx.strokeStyle = lerpColor(startColor, endColor, 0.9);
+    ctx.lineWidth = size / 4;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.lineTo(0, -size * 1.5);
+    ctx.stroke();
+  },
+};
@@ -0,0 +1,46 @@
+// Vine: wandering stems with pointed leaves and petal-ring flowers
+
+import { DEFAULT_BRANCHING, DEFAULT_CROWN, DEFAULT_GRAMMAR, drawPetalRing, drawPointedLeaf, sideLeafAngle, steerStraightThenCurl } from './shared';
+import { PlantSpecies, PlantSettings, PlantType } from '../types';
+
+// Vine: More harmonious natural greens
+const preset: PlantSettings = {
+  type: PlantType.VINE,
+  stemColorStart: '#a3e635', // Lime 400
+  stemColorEnd: '#15803d',   // Green 700
+  baseWidth: 6,
+  growthSpeed: 3,
+  maxLife: 280,
+  curlFactor: 0.08,
+  straightness: 0.4, 
+  
+  leafColorStart: '#d9f99d', // Lime 200
+  leafColorEnd: '#166534',   // Green 800
+  leafFrequency: 0.1,
+  leafSize: 12,
+
+  flowerColorStart: '#fca5a5', 
+  flowerColorEnd: '#c4b5fd',   
+  flowerProbability: 0.7,
+  flowerSize: 20,
+  petalCount: 7,
+
+  ...DEFAULT_GRAMMAR,
+  ...DEFAULT_CROWN,
+
+  ...DEFAULT_BRANCHING,
+  branchChance: 0.015,
+  branchAngleOffset: 0.6,
+};
+
+export const vine: PlantSpecies = {
+  id: PlantType.VINE,
+  label: 'Vine',
+  preset,
+  sensitivity: { wind: 1, light: 1, gravity: 1 },
+  extraGenes: ['branching'],
+  steer: steerStraightThenCurl,
+  leafAngle: sideLeafAngle,
+  drawLeaf: drawPointedLeaf,
+  drawFlower: drawPetalRing,
+};
@@ -1,19 +1,80 @@
+import type { Perlin } from './utils/noise';
+import type { Random } from './utils/random';
+import type { PaintContext } from './utils/render';
+import type { GeneGroup } from './utils/genes';
+import type { CrownShape } from './utils/crown';
+
 export interface Point {
   x: number;
   y: number;
 }
 
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// How strongly a species responds to each environmental force: 0 ignores it, 1 is a typical response
+export interface Sensitivity {
+  wind: number;
+  light: number;
+  gravity: number;
+}
+
+// Garden-wide forces acting on growing stems, saved with the garden
+export interface Environment {
+  windStrength: number; // 0-1
+  windDirection: number; // Degrees the wind blows toward; 0 is to the right, 90 is down
+  light: Point | null; // Light source as fractions of the garden's width and height, or null for none
+  lightStrength: number; // 0-1
+  gravity: number; // 0-1
+  sensitivity: Record<SpeciesId, Sensitivity>; // The user's overrides of species' own sensitivities
+}
+
+// How a bottle plant is drawn around its root, on top of where it stands
+export interface PlantTransform {
+  scale: number; // Uniform
+  mirrored: boolean; // Flipped left to right
+}
+
+// How fast the garden grows
+export interface GrowthPace {
+  playing: boolean;
+  speed: number; // Multiplier on the normal growth rate, 0.25-8
+}
+
+export type VesselShape = 'jar' | 'flask' | 'dome' | 'globe' | 'custom';
+
+// The glass the bottle plants grow in, outlined by a closed SVG path in a 320 × 280 box (utils/vessel.ts)
+export interface Vessel {
+  shape: VesselShape;
+  path: string;
+}
+
+// A vessel standing in the garden: its shape stretched over a box in garden coordinates
+export interface PlacedVessel extends Rect {
+  id: string;
+  vessel: Vessel;
+}
+
+// Species are looked up by id in the registry (species/index.ts); these are the built-in ones
 export enum PlantType {
   VINE = 'VINE',
   PALM = 'PALM',
   GEOMETRIC = 'GEOMETRIC',
   UMBRELLA = 'UMBRELLA',
   BERRY = 'BERRY',
-  CLUSTER = 'CLUSTER'
+  CLUSTER = 'CLUSTER',
+  LSYSTEM = 'LSYSTEM',
+  CANOPY = 'CANOPY'
 }
 
+export type SpeciesId = string;
+
 export interface PlantSettings {
-  type: PlantType; // Type of generator
+  type: SpeciesId; // Species that grows and paints the plant
   
   // Stem
   stemColorStart: string;
@@ -36,8 +97,110 @@ export interface PlantSettings {
   flowerProbability: number; // Chance to spawn flower on death
   flowerSize: number;
   petalCount: number;
+
+  // L-system grammar, only read by species that grow from one
+  lsystemAxiom: string;
+  lsystemRules: string; // e.g. "X=F[+X][-X]FX; F=FF", separated by semicolons or new lines
+  lsystemIterations: number;
+  lsystemAngle: number; // Degrees turned by + and -
+
+  // Space colonization, only read by species that grow toward attractor points
+  crownShape: CrownShape;
+  attractorDensity: number; // Attractors per 50x50 px of crown
+  killDistance: number; // An attractor is used up once a branch comes this close
+  segmentLength: number;
+
+  // Branching and steering, only read by species that grow as wandering stems
+  branchChance: number; // Chance per tick that a stem forks
+  branchAngleOffset: number; // Radians between a fork and its parent stem
+  branchGenerations: number; // How deep forks of forks go; forks this deep neither fork again nor bloom
+  branchShortening: number; // A fork lives maxLife / (1 + generation * this)
+  branchThinning: number; // A fork starts baseWidth / (1 + generation * this) wide
+  linger: number; // Ticks a finished stem is kept before it is dropped; its bloom is added on the first
+  noiseScale: number; // How finely the steering noise varies across the garden
+  noiseDrift: number; // How fast it changes as a stem grows
+}
+
+// Everything needed to regrow one specific plant: its genes plus the seed of its random decisions
+export interface PlantDNA {
+  settings: PlantSettings;
+  seed: number;
+  vessel?: Vessel; // The vessel a bottle plant grew in; its glass shaped the plant
+}
+
+// Genes saved under a name in the user's preset library (components/PresetLibrary.tsx)
+export interface PlantPreset {
+  id: string;
+  name: string;
+  settings: PlantSettings;
+  seed: number; // Grows the thumbnail
+  thumbnail?: string; // PNG data URL; grown after import, and kept once it is
+}
+
+// A plant in the garden as seen from outside the canvas
+export interface PlantSummary {
+  id: string;
+  settings: PlantSettings;
+  seed: number;
+  parents?: string[]; // Ids of the two plants it was bred from
 }
 
+// Retained plant geometry, in plant-local coordinates (the root is at 0,0) and in paint order
+export interface StemSegment {
+  kind: 'segment';
+  growerId: string;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width: number;
+  color: string;
+}
+
+export interface LeafShape {
+  kind: 'leaf';
+  x: number;
+  y: number;
+  angle: number;
+  size: number; // Already jittered
+  color: string;
+  type: SpeciesId;
+}
+
+export interface BloomShape {
+  kind: 'bloom';
+  x: number;
+  y: number;
+  size: number; // Already jittered
+  startColor: string;
+  endColor: string;
+  petals: number;
+  type: SpeciesId;
+  seed: number; // Drives berry, floret and spathe placement when the bloom is painted
+}
+
+export type SceneElement = StemSegment | LeafShape | BloomShape;
+
+// A plant scene placed in the garden: (x, y) is where its root sits
+export interface PlacedScene {
+  scene: SceneElement[];
+  x: number;
+  y: number;
+  transform?: PlantTransform; // Bottle plants only
+}
+
+// Everything the exporters need to redraw the garden as it is shown, in CSS pixels
+export interface GardenSnapshot {
+  width: number;
+  height: number;
+  background: string;
+  outside: PlacedScene[];
+  vessels: (PlacedVessel & { plants: PlacedScene[] })[]; // In stacking order, each with the plants it holds
+}
+
+// Target size of a PNG export: a multiple of the on-screen size, or an exact pixel width
+export type PngExportSize = { scale: number } | { width: number };
+
 export interface Grower {
   id: string;
   x: number;
@@ -50,13 +213,49 @@ export interface Grower {
   color: string; // Current cached color to avoid recalculating every frame if not needed, or just unused
   settings: PlantSettings;
   noiseOffset: number;
-  generation: number; // 0 for main stem, 1 for branch
-  ctx: CanvasRenderingContext2D; // Direct reference to the context to draw on
+  generation: number; // 0 for the main stem, one more for each fork away from it
+  scene: SceneElement[]; // Scene of the plant this grower belongs to; new geometry is appended here
+  random: Random; // Seeded PRNG shared by every grower of the same plant
+  noise: Perlin; // Noise field seeded from the same plant seed
   hasAttemptedFlower?: boolean;
+  state?: unknown; // Private to species that replace the default stem step (PlantSpecies.grow)
+}
+
+// A kind of plant: how its stems steer and branch, how its leaves and blooms look, and its starting genes
+export interface PlantSpecies {
+  id: SpeciesId;
+  label: string; // Shown on the species buttons
+  preset: PlantSettings;
+  steer: (grower: Grower, progress: number) => void; // Turns grower.angle before the next segment is laid
+  leafAngle: (grower: Grower) => number; // Leaf angle relative to the stem
+  drawLeaf: (ctx: PaintContext, size: number) => void; // Fills the leaf path; the leaf's base is at 0,0 pointing along +x
+  drawFlower: (ctx: PaintContext, bloom: BloomShape, random: Random) => void; // Centred on 0,0; random is seeded from the bloom
+  extraGenes?: GeneGroup[]; // Gene groups beyond stem, foliage and bloom that this species reads (and the sidebar shows)
+  sensitivity?: Sensitivity; // Default response to the environment; species without one are not affected by it
+
+  // Species that do not grow as wandering stems supply their own growers; steer and the branching genes are then unused.
+  // `space` is the room the plant may fill in plant-local coordinates, e.g. the inside of its bottle.
+  sow?: (settings: PlantSettings, scene: SceneElement[], random: Random, noise: Perlin, space?: Rect) => Grower[];
+  grow?: (grower: Grower) => void; // One tick of one grower, in place of the default stem step
 }
 
 export interface GardenCanvasRef {
-  spawn: (x: number, y: number, settings?: PlantSettings, isInsideBottle?: boolean) => void;
-  undo: () => void;
-  updateBottleRect: (rect: DOMRect) => void;
+  // Plants into the selected vessel, or the first one; an empty vessel takes on `vessel`. With parents, plants bred offspring.
+  // Returns false while there is no vessel yet.
+  plantInVessel: (settings: PlantSettings, seed: number, parents?: string[], vessel?: Vessel) => boolean;
+  addVessel: () => void;
+  reshapeVessel: (vessel: Vessel) => void; // Of the selected vessel
+  // The garden may run in a worker, so anything that reads it back answers asynchronously
+  undo: () => Promise<string | null>; // Label of the undone action, or null when there was nothing to undo
+  redo: () => Promise<string | null>;
+  exportSvg: () => Promise<string>;
+  exportPng: (size: PngExportSize) => Promise<Blob>;
+  growInstantly: () => void; // Finishes every plant that is still growing
+  // The bottle plant picked by clicking it
+  deselectPlant: () => void;
+  editPlant: (id: string, settings: PlantSettings) => void; // Regrows it in place with the new genes
+  deletePlant: (id: string) => void;
+  duplicatePlant: (id: string) => void; // The copy stands next to it and becomes the selected plant
+  transformPlant: (id: string, transform: Partial<PlantTransform>) => void;
+  reorderPlant: (id: string, direction: 1 | -1) => void; // 1 brings it forward
 }
\ No newline at end of file
@@ -0,0 +1,61 @@
+// Cross-pollination and mutation: deriving new plants' genes from existing ones
+
+import { GENES, GeneGroup, GeneSpec, limitBranching } from './genes';
+import { mixColor } from './color';
+import { Random } from './random';
+import { PlantSettings } from '../types';
+
+// How strongly each sidebar group mutates, from 0 (never) to 1
+export type MutationStrengths = Record<'stem' | 'foliage' | 'bloom', number>;
+
+// Moves a number by up to `rate` of its value (plus a sliver of the gene's range, so genes at zero can still mutate)
+const jitter = (gene: GeneSpec, value: number, rate: number, random: Random) => {
+  const min = gene.min ?? 0;
+  const max = gene.max ?? 1;
+  const spread = rate * (Math.abs(value) + (max - min) * 0.02);
+  const jittered = Math.min(max, Math.max(min, value + (random() * 2 - 1) * spread));
+  return gene.kind === 'integer' ? Math.round(jittered) : jittered;
+};
+
+const randomColor = (random: Random) =>
+  '#' + Math.floor(random() * 0x1000000).toString(16).padStart(6, '0');
+
+// Colors land somewhere between the parents', numbers are averaged and then jittered by up to `mutationRate`.
+// The species and each group of text genes (a grammar, a crown shape) come whole from one parent,
+// since half of one grammar and half of another rarely grows anything.
+export const crossSettings = (a: PlantSettings, b: PlantSettings, mutationRate: number, random: Random = Math.random): PlantSettings => {
+  const child: Record<string, unknown> = { type: random() < 0.5 ? a.type : b.type };
+  const donors = new Map<string, PlantSettings>();
+
+  GENES.forEach(gene => {
+    if (gene.kind === 'color') {
+      child[gene.key] = mixColor(a[gene.key] as string, b[gene.key] as string, random());
+    } else if (gene.kind === 'text') {
+      if (!donors.has(gene.group)) donors.set(gene.group, random() < 0.5 ? a : b);
+      child[gene.key] = donors.get(gene.group)![gene.key];
+    } else {
+      const average = ((a[gene.key] as number) + (b[gene.key] as number)) / 2;
+      child[gene.key] = jitter(gene, average, mutationRate, random);
+    }
+  });
+
+  // Two bushy parents can average into a child that forks without end
+  return limitBranching(child as unknown as PlantSettings);
+};
+
+// Growth-rule genes (grammar, crown, branching) shape the stems, so they follow the stem strength
+const strengthOf = (group: GeneGroup, strengths: MutationStrengths) =>
+  group === 'foliage' || group === 'bloom' ? strengths[group] : strengths.stem;
+
+// A variant of the same species: numbers jittered and colors drifted toward a random color, per group strength.
+// Text genes are kept, so a variant's grammar or crown shape is always one that grows.
+export const mutateSettings = (settings: PlantSettings, strengths: MutationStrengths, random: Random = Math.random): PlantSettings => {
+  const variant: Record<string, unknown> = { ...settings };
+  GENES.forEach(gene => {
+    const strength = strengthOf(gene.group, strengths);
+    if (strength === 0 || gene.kind === 'text') return;
+    if (gene.kind === 'color') variant[gene.key] = mixColor(settings[gene.key] as string, randomColor(random), random() * strength * 0.5);
+    else variant[gene.key] = jitter(gene, settings[gene.key] as number, strength, random);
+  });
+  return limitBranching(variant as unknown as PlantSettings);
+};
@@ -0,0 +1,24 @@
+// Helper to interpolate between two hex colors
+export const lerpColor = (start: string, end: string, t: number) => {
+    t = Math.max(0, Math.min(1, t));
+    const parse = (c: string) => {
+        const hex = c.replace('#', '');
+        return {
+            r: parseInt(hex.substring(0, 2), 16),
+            g: parseInt(hex.substring(2, 4), 16),
+            b: parseInt(hex.substring(4, 6), 16)
+        };
+    };
+    const s = parse(start);
+    const e = parse(end);
+    const r = Math.round(s.r + (e.r - s.r) * t);
+    const g = Math.round(s.g + (e.g - s.g) * t);
+    const b = Math.round(s.b + (e.b - s.b) * t);
+    return `rgb(${r}, ${g}, ${b})`;
+};
+
+// Like lerpColor, but returns a hex color so the result can be stored as a gene
+export const mixColor = (start: string, end: string, t: number) => {
+    const rgb = lerpColor(start, end, t).match(/\d+/g) ?? ['0', '0', '0'];
+    return '#' + rgb.map(c => parseInt(c, 10).toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,73 @@
+// Keeps bottle plants inside the glass: stems bend away from the vessel's outline as they close in on it
+// and stop where they touch, and auto-fit shrinks a plant's genes so it is sized for the bottle to begin with.
+// Species that grow to a plan of their own (L-systems, canopies) are only fitted; the canvas clips whatever is left over.
+
+import { edgesNear, insideOutline, nearestOnOutline } from './outline';
+import { Grower, PlantSettings, Point, Rect } from '../types';
+
+// Stems start to turn aside this far from the glass
+const WALL_MARGIN = 24;
+// Room left for the glass itself
+const GLASS_INSET = 3;
+// Headroom kept free under the rim when fitting a plant
+const FIT_MARGIN = 12;
+
+// Turns the heading of a grower that is closing in on the glass, until it runs along it at contact
+export const avoidWalls = (grower: Grower, walls: Point[]) => {
+  if (!insideOutline(walls, grower.x, grower.y)) return;
+  let hx = Math.cos(grower.angle);
+  let hy = Math.sin(grower.angle);
+  edgesNear(walls, grower.x, grower.y, WALL_MARGIN).forEach(edge => {
+    if (edge.distance === 0) return;
+    // Inward normal: from the glass toward the grower
+    const nx = (grower.x - edge.x) / edge.distance;
+    const ny = (grower.y - edge.y) / edge.distance;
+    const into = hx * nx + hy * ny;
+    if (into >= 0) return;
+    const closeness = 1 - edge.distance / WALL_MARGIN;
+    hx -= into * nx * closeness;
+    hy -= into * ny * closeness;
+  });
+  // Head-on into a wall leaves nothing to run along; climbing is the natural way out
+  if (Math.hypot(hx, hy) < 1e-6) hy = -1;
+  grower.angle = Math.atan2(hy, hx);
+};
+
+// Where a grower's step to (x, y) ends inside the glass, and whether the glass stopped it short.
+// Growers that are not inside to begin with (planted on the glass, say) are left alone.
+export const stopAtWalls = (walls: Point[], from: Point, x: number, y: number) => {
+  const clear = (px: number, py: number) =>
+    insideOutline(walls, px, py) && nearestOnOutline(walls, px, py).distance >= GLASS_INSET;
+  if (clear(x, y) || !clear(from.x, from.y)) return { x, y, stopped: false };
+
+  // The furthest point of the step that is still clear of the glass
+  let reach = 0;
+  let blocked = 1;
+  for (let i = 0; i < 8; i++) {
+    const t = (reach + blocked) / 2;
+    if (clear(from.x + (x - from.x) * t, from.y + (y - from.y) * t)) reach = t;
+    else blocked = t;
+  }
+  return { x: from.x + (x - from.x) * reach, y: from.y + (y - from.y) * reach, stopped: true };
+};
+
+// Shrinks a plant so its tallest possible stem, plus a bloom on top, stays under the top of `space`
+// (the vessel's bounds in plant-local coordinates). Plants that already fit are returned unchanged; nothing is ever enlarged.
+export const fitToSpace = (settings: PlantSettings, space: Rect): PlantSettings => {
+  const headroom = -space.y - FIT_MARGIN;
+  // A branch can carry on upward from near the tip of its parent
+  const reach = settings.maxLife * settings.growthSpeed * (settings.branchChance > 0 && settings.branchGenerations > 0 ? 1.5 : 1);
+  const scale = Math.min(1, headroom / (reach + settings.flowerSize / 2));
+  if (!(scale < 1)) return settings;
+
+  const shrink = (value: number, by: number, min: number) => Math.max(min, Math.round(value * by * 10) / 10);
+  // Stems shrink in full; leaves and blooms less, so a small plant does not end up bare
+  const detail = Math.sqrt(Math.max(scale, 0));
+  return {
+    ...settings,
+    maxLife: shrink(settings.maxLife, Math.max(scale, 0), 10),
+    baseWidth: shrink(settings.baseWidth, detail, 0.5),
+    leafSize: shrink(settings.leafSize, detail, 0),
+    flowerSize: shrink(settings.flowerSize, detail, 0),
+  };
+};
@@ -0,0 +1,18 @@
+// Crown outlines for plants that grow toward attractor points. Each is a test on the crown's box,
+// where u runs from -1 (left) to 1 (right) and v from 0 (bottom) to 1 (top).
+
+export type CrownShape = 'ellipse' | 'cone' | 'dome' | 'column';
+
+const OUTLINES: Record<CrownShape, (u: number, v: number) => boolean> = {
+  ellipse: (u, v) => u * u + (2 * v - 1) * (2 * v - 1) <= 1,
+  cone: (u, v) => Math.abs(u) <= 1 - v, // Broad at the bottom, like a spruce
+  dome: (u, v) => u * u + v * v <= 1, // Flat underside, like an oak
+  column: (u, v) => Math.abs(u) <= 0.4 && (v < 0.85 || u * u / 0.16 + (v - 0.85) * (v - 0.85) / 0.0225 <= 1),
+};
+
+export const CROWN_SHAPES = Object.keys(OUTLINES) as CrownShape[];
+
+export const isCrownShape = (value: unknown): value is CrownShape =>
+  typeof value === 'string' && (CROWN_SHAPES as string[]).includes(value);
+
+export const insideCrown = (shape: CrownShape, u: number, v: number) => OUTLINES[shape](u, v);
@@ -0,0 +1,44 @@
+// The parts of a canvas that changed since it was last composited. Overlapping areas are merged, and past
+// a handful of separate areas they collapse into their union, so a frame redraws little more than what changed.
+
+import { Rect } from '../types';
+import { rectsIntersect, unionRect } from './rect';
+
+const MAX_REGIONS = 8;
+
+export class DirtyRegions {
+  private regions: Rect[] = [];
+  private everything = false;
+
+  // Marks an area, rounded out to whole pixels so antialiased edges are redrawn too
+  add(area: Rect) {
+    if (this.everything || !(area.width > 0 && area.height > 0)) return;
+    const x = Math.floor(area.x) - 1;
+    const y = Math.floor(area.y) - 1;
+    let merged: Rect = { x, y, width: Math.ceil(area.x + area.width) + 1 - x, height: Math.ceil(area.y + area.height) + 1 - y };
+    // Absorbing one region can make the union reach another, so keep going until nothing overlaps
+    for (let i = this.regions.findIndex(r => rectsIntersect(r, merged)); i >= 0; i = this.regions.findIndex(r => rectsIntersect(r, merged))) {
+      merged = unionRect(merged, this.regions[i]);
+      this.regions.splice(i, 1);
+    }
+    this.regions.push(merged);
+    if (this.regions.length > MAX_REGIONS) this.regions = [this.regions.reduce(unionRect)];
+  }
+
+  addAll() {
+    this.everything = true;
+    this.regions = [];
+  }
+
+  get isEmpty() {
+    return !this.everything && this.regions.length === 0;
+  }
+
+  // Hands over what needs redrawing and starts afresh
+  take(): Rect[] | 'all' {
+    const taken = this.everything ? 'all' : this.regions;
+    this.everything = false;
+    this.regions = [];
+    return taken;
+  }
+}
@@ -0,0 +1,258 @@
+// Plant DNA codec. Current DNA reads "GG<version>-<base64url>", where the payload is a compact
+// binary record (version, seed, species, genes, then the vessel of a bottle plant) followed by a 16-bit checksum.
+// Version 1 is the original base64 JSON format; it is still accepted and migrated on import.
+
+import { PlantDNA, PlantSettings, Vessel } from '../types';
+import { getSpecies, hasSpecies } from '../species';
+import { GENES, validateSettings } from './genes';
+import { validateVessel } from './vessel';
+
+export const DNA_VERSION = 6;
+// First version that can carry a vessel
+const VESSEL_SINCE = 5;
+
+const PREFIX = 'GG';
+
+export class DnaError extends Error {
+  problems: string[];
+
+  constructor(problems: string | string[]) {
+    const list = Array.isArray(problems) ? problems : [problems];
+    super(list.join(' '));
+    this.name = 'DnaError';
+    this.problems = list;
+  }
+}
+
+class ByteWriter {
+  private bytes: number[] = [];
+  private scratch = new DataView(new ArrayBuffer(4));
+
+  u8(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  u16(value: number) {
+    this.u8(value >>> 8);
+    this.u8(value);
+  }
+
+  u32(value: number) {
+    this.u16(value >>> 16);
+    this.u16(value);
+  }
+
+  f32(value: number) {
+    this.scratch.setFloat32(0, value);
+    for (let i = 0; i < 4; i++) this.u8(this.scratch.getUint8(i));
+  }
+
+  color(hex: string) {
+    const value = parseInt(hex.slice(1), 16);
+    this.u8(value >>> 16);
+    this.u8(value >>> 8);
+    this.u8(value);
+  }
+
+  string(value: string) {
+    const encoded = new TextEncoder().encode(value);
+    this.u8(encoded.length);
+    encoded.forEach(b => this.u8(b));
+  }
+
+  // Like string, for text genes that may be longer than 255 bytes
+  text(value: string) {
+    const encoded = new TextEncoder().encode(value);
+    this.u16(encoded.length);
+    encoded.forEach(b => this.u8(b));
+  }
+
+  toBytes() {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+  private view: DataView;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private take(length: number) {
+    if (this.offset + length > this.bytes.length) {
+      throw new DnaError('DNA is incomplete; it was probably cut off while copying.');
+    }
+    const start = this.offset;
+    this.offset += length;
+    return start;
+  }
+
+  u8() {
+    return this.view.getUint8(this.take(1));
+  }
+
+  u16() {
+    return this.view.getUint16(this.take(2));
+  }
+
+  u32() {
+    return this.view.getUint32(this.take(4));
+  }
+
+  f32() {
+    // Float32 cannot hold 0.1 exactly; trimming to 6 significant digits restores slider values
+    return Number(this.view.getFloat32(this.take(4)).toPrecision(6));
+  }
+
+  color() {
+    const start = this.take(3);
+    return '#' + Array.from(this.bytes.subarray(start, start + 3), b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  string() {
+    const length = this.u8();
+    const start = this.take(length);
+    return new TextDecoder().decode(this.bytes.subarray(start, start + length));
+  }
+
+  text() {
+    const length = this.u16();
+    const start = this.take(length);
+    return new TextDecoder().decode(this.bytes.subarray(start, start + length));
+  }
+}
+
+// FNV-1a folded to 16 bits: enough to catch typos and truncated pastes
+const checksum = (bytes: Uint8Array) => {
+  let hash = 0x811c9dc5;
+  bytes.forEach(b => {
+    hash ^= b;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  });
+  return (hash ^ (hash >>> 16)) & 0xffff;
+};
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  try {
+    return Uint8Array.from(atob(base64 + '='.repeat((4 - base64.length % 4) % 4)), c => c.charCodeAt(0));
+  } catch {
+    throw new DnaError('DNA is incomplete; it was probably cut off while copying.');
+  }
+};
+
+// Genes an older DNA version did not carry are taken from its species preset
+const withDefaults = (candidate: Record<string, unknown>): Record<string, unknown> =>
+  hasSpecies(candidate.type) ? { ...getSpecies(candidate.type).preset, ...candidate } : candidate;
+
+// Brings settings from any older source up to date and validates them, throwing a DnaError if they cannot be grown
+export const normalizeSettings = (candidate: Record<string, unknown>): PlantSettings => {
+  const completed = withDefaults(candidate);
+  const problems = validateSettings(completed);
+  if (problems.length > 0) throw new DnaError(problems);
+  return completed as unknown as PlantSettings;
+};
+
+export const encodeDna = ({ settings, seed, vessel }: PlantDNA): string => {
+  const writer = new ByteWriter();
+  writer.u8(DNA_VERSION);
+  writer.u32(seed);
+  writer.string(settings.type);
+  GENES.forEach(gene => {
+    const value = settings[gene.key];
+    if (gene.kind === 'color') writer.color(value as string);
+    else if (gene.kind === 'text') writer.text(value as string);
+    else if (gene.kind === 'integer') writer.u16(value as number);
+    else writer.f32(value as number);
+  });
+  writer.u8(vessel ? 1 : 0);
+  if (vessel) {
+    writer.string(vessel.shape);
+    writer.text(vessel.path);
+  }
+  const payload = writer.toBytes();
+  writer.u16(checksum(payload));
+  return `${PREFIX}${DNA_VERSION}-${toBase64Url(writer.toBytes())}`;
+};
+
+const decodeBinary = (version: number, body: string): PlantDNA => {
+  if (version < 2) {
+    throw new DnaError(`DNA version ${version} does not exist.`);
+  }
+  if (version > DNA_VERSION) {
+    throw new DnaError(`This DNA comes from a newer garden (version ${version}); this one reads up to version ${DNA_VERSION}.`);
+  }
+
+  const bytes = fromBase64Url(body);
+  if (bytes.length < 3) {
+    throw new DnaError('DNA is incomplete; it was probably cut off while copying.');
+  }
+  const payload = bytes.subarray(0, bytes.length - 2);
+  const expected = (bytes[bytes.length - 2] << 8) | bytes[bytes.length - 1];
+  if (checksum(payload) !== expected) {
+    throw new DnaError('DNA checksum does not match; a character was probably mistyped or lost.');
+  }
+
+  const reader = new ByteReader(payload);
+  if (reader.u8() !== version) {
+    throw new DnaError(`DNA says version ${version} but its contents are from another version.`);
+  }
+  const seed = reader.u32();
+  const candidate: Record<string, unknown> = { type: reader.string() };
+  GENES.filter(gene => gene.since <= version).forEach(gene => {
+    if (gene.kind === 'color') candidate[gene.key] = reader.color();
+    else if (gene.kind === 'text') candidate[gene.key] = reader.text();
+    else if (gene.kind === 'integer') candidate[gene.key] = reader.u16();
+    else candidate[gene.key] = reader.f32();
+  });
+
+  const settings = normalizeSettings(candidate);
+  if (version < VESSEL_SINCE || reader.u8() === 0) return { settings, seed };
+  const vessel = { shape: reader.string(), path: reader.text() };
+  const problems = validateVessel(vessel);
+  if (problems.length > 0) throw new DnaError(problems);
+  return { settings, seed, vessel: vessel as Vessel };
+};
+
+// Version 1: base64 of the raw settings JSON, optionally with a seed (added before the binary format)
+const decodeLegacy = (text: string): PlantDNA => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(atob(text));
+  } catch {
+    throw new DnaError(`This does not look like plant DNA; it should start with "${PREFIX}${DNA_VERSION}-".`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new DnaError('This old-style DNA does not describe a plant.');
+  }
+
+  const { seed, ...candidate } = parsed as Record<string, unknown>;
+  const bytes = new TextEncoder().encode(text);
+  return {
+    settings: normalizeSettings(candidate),
+    // Old DNA without a seed still regrows the same plant every time it is pasted
+    seed: typeof seed === 'number' && Number.isInteger(seed) ? seed >>> 0 : checksum(bytes) * 65537,
+  };
+};
+
+// Throws a DnaError whose message is suitable to show the user as-is
+export const decodeDna = (text: string): PlantDNA => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new DnaError('DNA is empty.');
+  }
+
+  const match = /^GG(\d+)-(.*)$/i.exec(trimmed);
+  if (!match) {
+    return decodeLegacy(trimmed);
+  }
+  if (!/^[A-Za-z0-9_-]+$/.test(match[2])) {
+    throw new DnaError('DNA contains characters that do not belong to it; check for stray spaces or punctuation.');
+  }
+  return decodeBinary(parseInt(match[1], 10), match[2]);
+};
@@ -0,0 +1,11 @@
+// Saves generated content (SVG, PNG, JSON) as a file through a temporary link
+export const downloadFile = (filename: string, contents: Blob | string, type: string) => {
+  const blob = contents instanceof Blob ? contents : new Blob([contents], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
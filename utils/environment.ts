@@ -0,0 +1,77 @@
+// Garden-wide environment: a gusting wind field, a light that stems lean toward and gravity that bends thin branches.
+// Forces turn a grower's heading after its species has steered it, in proportion to the species' sensitivity.
+
+import { Perlin } from './noise';
+import { getSpecies } from '../species';
+import { Environment, Grower, Point, Sensitivity, SpeciesId } from '../types';
+
+export const DEFAULT_ENVIRONMENT: Environment = {
+  windStrength: 0,
+  windDirection: 0,
+  light: null,
+  lightStrength: 0.5,
+  gravity: 0,
+  sensitivity: {},
+};
+
+// Where a light lands when it is switched on: near the top right, like a window
+export const DEFAULT_LIGHT: Point = { x: 0.85, y: 0.15 };
+
+const UNAFFECTED: Sensitivity = { wind: 0, light: 0, gravity: 0 };
+
+// Turning rates, in radians per tick, at full strength and sensitivity
+const WIND_GAIN = 0.04;
+const LIGHT_GAIN = 0.03;
+const GRAVITY_GAIN = 0.08;
+
+// One wind field for the whole garden, so neighbouring plants sway alike
+const wind = new Perlin(1);
+
+// The environment as one plant feels it
+export interface Surroundings {
+  environment: Environment;
+  light: Point | null; // In garden pixels
+  origin: Point; // Where the plant's root is in the garden, to place its growers in the wind field and relative to the light
+  walls?: Point[]; // Outline of the glass around a bottle plant, relative to its root; stems bend away from it and stop at it
+}
+
+export const getSensitivity = (environment: Environment, type: SpeciesId): Sensitivity =>
+  environment.sensitivity[type] ?? getSpecies(type).sensitivity ?? UNAFFECTED;
+
+// Fills in anything an older save did not have
+export const normalizeEnvironment = (stored: Partial<Environment> | undefined): Environment => ({
+  ...DEFAULT_ENVIRONMENT,
+  ...stored,
+  sensitivity: { ...stored?.sensitivity },
+});
+
+// Each force turns the heading toward its own direction, more the further the heading is from it
+export const applyEnvironment = (grower: Grower, progress: number, { environment, light, origin }: Surroundings) => {
+  const sensitivity = getSensitivity(environment, grower.settings.type);
+  const x = origin.x + grower.x;
+  const y = origin.y + grower.y;
+  const hx = Math.cos(grower.angle);
+  const hy = Math.sin(grower.angle);
+  const toward = (fx: number, fy: number) => hx * fy - hy * fx;
+  let turn = 0;
+
+  if (environment.windStrength > 0 && sensitivity.wind > 0) {
+    // Gusts vary along the field and over the plant's own lifetime, so replays blow the same way
+    const gust = (wind.noise(x * 0.004, y * 0.004, grower.life * 0.03) + 1) / 2;
+    const direction = (environment.windDirection * Math.PI) / 180;
+    turn += toward(Math.cos(direction), Math.sin(direction)) * environment.windStrength * sensitivity.wind * gust * WIND_GAIN;
+  }
+  if (light && environment.lightStrength > 0 && sensitivity.light > 0) {
+    const dx = light.x - x;
+    const dy = light.y - y;
+    const distance = Math.hypot(dx, dy) || 1;
+    turn += toward(dx / distance, dy / distance) * environment.lightStrength * sensitivity.light * LIGHT_GAIN;
+  }
+  if (environment.gravity > 0 && sensitivity.gravity > 0) {
+    // Long, thin stretches sag the most
+    const width = grower.width * (1 - progress);
+    turn += toward(0, 1) * environment.gravity * sensitivity.gravity * (progress / (1 + width)) * GRAVITY_GAIN;
+  }
+
+  grower.angle += turn;
+};
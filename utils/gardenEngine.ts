@@ -0,0 +1,1271 @@
+// The living garden: grows and paints every plant, composites the vessels, keeps the undo histories and saves it all.
+// It only talks through messages (see gardenProtocol.ts), so it runs the same in a worker as on the main thread.
+
+import { Perlin } from './noise';
+import { createRandom, randomSeed, uuid } from './random';
+import { sowPlant, stepGrowers } from './growth';
+import { elementBounds, renderScene, sceneBounds, traceOutline } from './render';
+import { loadGarden, saveGarden, loadEnvironment, saveEnvironment, loadVessels, loadLegacyVessel, GardenExtent, GardenLayer, StoredPlant, StoredVessel } from './gardenStore';
+import { Surroundings } from './environment';
+import { fitToSpace } from './containment';
+import { DEFAULT_VESSEL, VESSEL_HEIGHT, VESSEL_WIDTH, placeOutline, vesselFloor } from './vessel';
+import { floorAt, insideOutline, outlineBounds, spanAt } from './outline';
+import { CommandHistory, Command } from './history';
+import { DirtyRegions } from './dirtyRegions';
+import { SimulationClock } from './simulationClock';
+import { SceneHitTester } from './hitTest';
+import { containsPoint, containsRect, padRect, rectsIntersect, sameRect, translateRect, unionRect } from './rect';
+import { GardenEvent, GardenOptions, GardenRequest, GardenSize, VesselHandle } from './gardenProtocol';
+import { Grower, PlacedVessel, PlantSettings, PlantTransform, Point, Rect, SceneElement, GardenSnapshot, Vessel } from '../types';
+
+export type LayerCanvas = HTMLCanvasElement | OffscreenCanvas;
+type LayerContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+interface GardenPlant {
+  id: string;
+  x: number; // Spawn point: garden coordinates outside, relative to its vessel's bottom center inside
+  y: number;
+  settings: PlantSettings;
+  seed: number;
+  age: number; // Growth ticks run so far; regrowing replays exactly this many
+  growers: Grower[];
+  scene: SceneElement[]; // Everything grown so far, in plant-local coordinates
+  painted: number; // How many scene elements are already on the plant's canvas
+  parents?: string[]; // Set on bred plants
+}
+
+interface BottlePlant extends GardenPlant {
+  offsetX: number; // Where its root was moved to, from where it was planted
+  offsetY: number;
+  transform: PlantTransform;
+  canvas: LayerCanvas; // Covers `bounds` only, and draws in plant-local coordinates
+  ctx: LayerContext;
+  bounds: Rect; // Plant-local area the canvas covers; enlarged as the plant outgrows it
+}
+
+// A vessel together with everything it owns
+interface GardenVessel extends PlacedVessel {
+  plants: BottlePlant[];
+  history: CommandHistory; // What was done inside it, undone while it is selected
+}
+
+interface DragState {
+  plantId: string;
+  vesselId: string;
+  startX: number;
+  startY: number;
+  plantStartOffsetX: number;
+  plantStartOffsetY: number;
+  targetId: string | null; // The other vessel it would move into if dropped now
+}
+
+interface VesselDragState {
+  vesselId: string;
+  handle: VesselHandle;
+  start: Rect;
+}
+
+const PAPER_COLOR = '#fdfbf7';
+const SAVE_DELAY_MS = 400;
+// Room left below the first vessel for the DNA input
+const DEFAULT_VESSEL_BOTTOM = 176;
+const VESSEL_GAP = 24;
+const MIN_VESSEL_WIDTH = 120;
+const MIN_VESSEL_HEIGHT = 100;
+// How far above the floor plants are rooted
+const FLOOR_CLEARANCE = 10;
+// Room around scene bounds for leaf and bloom shadows
+const CANVAS_PADDING = 6;
+// Extra room a plant canvas gets whenever it is outgrown, so a growing plant is not reallocated every tick
+const CANVAS_GROWTH = 48;
+// Enough ticks to finish any plant at once, while still stopping one that would never finish
+const INSTANT_GROWTH_TICKS = 20000;
+// How many pixels around a plant's drawing a click or hover still finds it
+const PICK_MARGIN = 4;
+// How far a duplicate stands from the original
+const DUPLICATE_SHIFT = 40;
+// How far above the floor a root may be moved, as a share of the vessel's height: the soil line
+const SOIL_DEPTH = 0.2;
+const MIN_PLANT_SCALE = 0.25;
+const MAX_PLANT_SCALE = 3;
+const IDENTITY_TRANSFORM: PlantTransform = { scale: 1, mirrored: false };
+
+const vesselOrigin = (v: Rect): Point => ({ x: v.x + v.width / 2, y: v.y + v.height });
+const vesselOutlineOf = (v: PlacedVessel) => placeOutline(v.vessel, v);
+
+// Where a vessel goes in a garden of size `to` that stood at `box` in one of size `from`: its bottom center, where
+// its plants stand, keeps its place relative to the garden's size, while the vessel keeps its own size and stays inside
+const reprojectVessel = (box: Rect, from: GardenExtent, to: GardenExtent): Point => {
+  const clamp = (value: number, max: number) => Math.max(0, Math.min(value, max));
+  const origin = vesselOrigin(box);
+  return {
+    x: clamp(origin.x * to.width / from.width - box.width / 2, to.width - box.width),
+    y: clamp(origin.y * to.height / from.height - box.height, to.height - box.height)
+  };
+};
+
+// Dedicated workers have requestAnimationFrame in most browsers; elsewhere a timer stands in
+const requestFrame = (callback: () => void) => {
+  if (typeof requestAnimationFrame === 'function') requestAnimationFrame(callback);
+  else setTimeout(callback, 16);
+};
+
+// Plant layers are OffscreenCanvases where the browser has them, which also works inside a worker
+const createLayer = (width: number, height: number): LayerCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const context2d = (canvas: LayerCanvas) => canvas.getContext('2d') as LayerContext | null;
+
+export class GardenEngine {
+  private outside: LayerCanvas;
+  private inside: LayerCanvas;
+  private size: GardenSize;
+  private options: GardenOptions;
+  private emit: (event: GardenEvent) => void;
+
+  private outsidePlants: GardenPlant[] = [];
+  // In stacking order, the last one on top
+  private vessels: GardenVessel[] = [];
+  // Plants outside, plus adding and removing vessels
+  private history = new CommandHistory();
+  private selectedId: string | null = null;
+  // The bottle plant shown in the inspector, if any
+  private selectedPlantId: string | null = null;
+  private publishedSelection: { plant: BottlePlant; settings: PlantSettings; transform: PlantTransform; vessel: Vessel; box: Rect } | null = null;
+  // Where the pointer rests, and the plant under it that a right-click would copy
+  private hoverPoint: Point | null = null;
+  private publishedHover: { plant: GardenPlant; box: Rect } | null = null;
+  // Plant-local bounds of each scene, widened as it grows; a regrown plant has a new scene and is measured afresh
+  private sceneBoxes = new WeakMap<SceneElement[], { measured: number; box: Rect }>();
+  private hitTester = new SceneHitTester(createLayer(1, 1), PICK_MARGIN);
+  // The latest change to a plant, so a slider or pinch dragged across many values is undone in one step
+  private lastChange: { plantId: string; property: string; after: unknown; command: Command } | null = null;
+  private drag: DragState | null = null;
+  private vesselDrag: VesselDragState | null = null;
+  // What the bottle layer still needs recomposited
+  private dirty = new DirtyRegions();
+  private frameRequested = false;
+  // Growth advances in fixed ticks however often frames come
+  private clock = new SimulationClock();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  // Saving replaces the stored garden, so it waits for the load and never follows a failed one:
+  // the stored garden may still be there, only unreadable for now
+  private restoreState: 'loading' | 'restored' | 'failed' = 'loading';
+  private saveWanted = false; // Something changed while the saved garden was still loading
+  private startEnvironment: string; // As started with, to tell whether the user changed it before the saved one loaded
+  private disposed = false;
+
+  constructor(outside: LayerCanvas, inside: LayerCanvas, size: GardenSize, options: GardenOptions, emit: (event: GardenEvent) => void) {
+    this.outside = outside;
+    this.inside = inside;
+    this.size = size;
+    this.options = options;
+    this.startEnvironment = JSON.stringify(options.environment);
+    this.emit = emit;
+    this.allocateLayers();
+    this.restore();
+  }
+
+  handle(request: GardenRequest) {
+    switch (request.type) {
+      case 'resize': {
+        const from = this.size;
+        this.size = request.size;
+        this.reproject(from);
+        // Resizing a canvas wipes it, so every plant is repainted at its new size
+        this.allocateLayers();
+        this.redrawAll();
+        break;
+      }
+      case 'configure': {
+        const environmentChanged = request.options.environment && request.options.environment !== this.options.environment;
+        this.options = { ...this.options, ...request.options };
+        // Environment changes apply to every tick from now on and are saved with the garden
+        if (environmentChanged && this.restoreState === 'restored') this.scheduleSave();
+        // Resuming, or switching to instant growth, picks up plants that were left growing
+        this.wake();
+        break;
+      }
+      case 'plantAt':
+        this.spawnPlant(request.x, request.y, undefined, this.vesselAt(request.x, request.y) ?? null);
+        break;
+      case 'plantInVessel':
+        this.plantInVessel(request.settings, request.seed, request.parents, request.vessel);
+        break;
+      case 'pointerDown':
+        this.pointerDown(request.x, request.y);
+        break;
+      case 'pointerMove':
+        this.pointerMove(request.x, request.y);
+        break;
+      case 'pointerUp':
+        this.pointerUp();
+        break;
+      case 'copyAt':
+        this.copyPlantAt(request.x, request.y);
+        break;
+      case 'hover':
+        this.hoverPoint = request.point;
+        this.publishHover();
+        break;
+      case 'exportPlantAt': {
+        const found = this.plantAt(request.x, request.y);
+        if (found) this.emit({ type: 'plantExported', scene: found.plant.scene });
+        break;
+      }
+      case 'dragVessel':
+        this.dragVessel(request.handle, request.dx, request.dy);
+        break;
+      case 'dropVessel':
+        this.dropVessel();
+        break;
+      case 'addVessel':
+        this.addVessel();
+        break;
+      case 'removeVessel':
+        this.removeVessel(request.id);
+        break;
+      case 'reshapeVessel':
+        this.reshapeVessel(request.vessel);
+        break;
+      case 'clear':
+        this.clearOutside();
+        break;
+      case 'selectPlant':
+        this.selectPlant(request.id);
+        break;
+      case 'editPlant':
+        this.editPlant(request.id, request.settings);
+        break;
+      case 'deletePlant':
+        this.deletePlant(request.id);
+        break;
+      case 'duplicatePlant':
+        this.duplicatePlant(request.id);
+        break;
+      case 'transformPlant':
+        this.transformPlant(request.id, request.transform);
+        break;
+      case 'reorderPlant':
+        this.reorderPlant(request.id, request.direction);
+        break;
+      case 'growInstantly':
+        this.grow(INSTANT_GROWTH_TICKS);
+        this.wake();
+        break;
+      case 'undo':
+      case 'redo':
+        this.emit({ type: 'reply', callId: request.callId, result: this.stepHistory(request.type) });
+        break;
+      case 'snapshot':
+        this.emit({ type: 'reply', callId: request.callId, result: this.takeSnapshot() });
+        break;
+    }
+  }
+
+  // Stops growing and painting; used when the main thread runs the engine and the garden goes away
+  dispose() {
+    this.disposed = true;
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+  }
+
+  // ---- Vessels and selection
+
+  private publishVessels() {
+    this.emit({
+      type: 'vessels',
+      vessels: this.vessels.map(({ id, vessel, x, y, width, height }) => ({ id, vessel, x, y, width, height })),
+      selectedId: this.selectedId,
+      dropTargetId: this.drag?.targetId ?? null
+    });
+  }
+
+  private findVessel(id: string | null) {
+    return this.vessels.find(v => v.id === id);
+  }
+
+  // The topmost vessel whose glass contains the point
+  private vesselAt(x: number, y: number) {
+    return [...this.vessels].reverse().find(v => insideOutline(vesselOutlineOf(v), x, y));
+  }
+
+  private vesselOfPlant(plant: GardenPlant) {
+    return this.vessels.find(v => v.plants.some(p => p === plant));
+  }
+
+  // Undo and redo act on the selected vessel, or on the garden when none is selected
+  private activeHistory() {
+    return this.findVessel(this.selectedId)?.history ?? this.history;
+  }
+
+  private reportHistory() {
+    const history = this.activeHistory();
+    this.emit({ type: 'history', canUndo: history.canUndo, canRedo: history.canRedo });
+  }
+
+  private selectVessel(id: string | null) {
+    this.selectedId = this.findVessel(id)?.id ?? null;
+    this.publishVessels();
+    this.reportHistory();
+  }
+
+  // Keeps the layout when the garden is resized, e.g. a rotated tablet: plants outside and vessels keep their place
+  // relative to the garden's size. Plants keep the shape they grew into and vessels their size.
+  private reproject(from: GardenExtent) {
+    const to = this.size;
+    if (from.width <= 0 || from.height <= 0 || (from.width === to.width && from.height === to.height)) return;
+    this.outsidePlants.forEach(plant => {
+      plant.x *= to.width / from.width;
+      plant.y *= to.height / from.height;
+    });
+    this.vessels.forEach(vessel => Object.assign(vessel, reprojectVessel(vessel, from, to)));
+    this.publishVessels();
+    this.scheduleSave();
+  }
+
+  // Where the next vessel goes: right of the last one, or a shelf higher up when the row is full
+  private placeNewVessel(vessel: Vessel): GardenVessel {
+    const { width, height } = this.size;
+    const last = this.vessels[this.vessels.length - 1];
+    let x = width / 2 - VESSEL_WIDTH / 2;
+    let y = height - DEFAULT_VESSEL_BOTTOM - VESSEL_HEIGHT;
+    if (last) {
+      x = last.x + last.width + VESSEL_GAP;
+      y = last.y + last.height - VESSEL_HEIGHT;
+      if (x + VESSEL_WIDTH > width) {
+        x = VESSEL_GAP;
+        y = last.y - VESSEL_HEIGHT - VESSEL_GAP;
+      }
+    }
+    return {
+      id: uuid(), vessel, x, y: Math.max(0, y), width: VESSEL_WIDTH, height: VESSEL_HEIGHT,
+      plants: [], history: new CommandHistory()
+    };
+  }
+
+  private addVessel() {
+    const added = this.placeNewVessel(DEFAULT_VESSEL);
+    this.vessels.push(added);
+    this.recordCommand({
+      label: 'Add vessel',
+      undo: () => { this.vessels = this.vessels.filter(v => v !== added); },
+      redo: () => {
+        this.vessels.push(added);
+        added.plants.forEach(plant => this.repaintBottlePlant(plant));
+      }
+    });
+    this.scheduleSave();
+  }
+
+  // Takes the vessel's plants with it; the garden always keeps at least one vessel to plant into
+  private removeVessel(id: string) {
+    const index = this.vessels.findIndex(v => v.id === id);
+    if (index < 0 || this.vessels.length <= 1) return;
+    const [removed] = this.vessels.splice(index, 1);
+    this.invalidate();
+    this.recordCommand({
+      label: 'Remove vessel',
+      undo: () => {
+        this.vessels.splice(Math.min(index, this.vessels.length), 0, removed);
+        removed.plants.forEach(plant => this.repaintBottlePlant(plant));
+      },
+      redo: () => { this.vessels = this.vessels.filter(v => v !== removed); }
+    });
+    this.scheduleSave();
+  }
+
+  // A new shape takes effect on the next tick; plants already outside its glass are clipped
+  private reshapeVessel(vessel: Vessel) {
+    const target = this.findVessel(this.selectedId);
+    if (!target) return;
+    target.vessel = vessel;
+    this.publishVessels();
+    this.invalidate();
+    this.scheduleSave();
+  }
+
+  // Moving and resizing the selected vessel by its handles; its plants keep their place relative to its floor
+  private dragVessel(handle: VesselHandle, dx: number, dy: number) {
+    if (!this.vesselDrag) {
+      const vessel = this.findVessel(this.selectedId);
+      if (!vessel) return;
+      this.vesselDrag = { vesselId: vessel.id, handle, start: { x: vessel.x, y: vessel.y, width: vessel.width, height: vessel.height } };
+    }
+    const { vesselId, start } = this.vesselDrag;
+    const vessel = this.findVessel(vesselId);
+    if (!vessel) return;
+    if (handle === 'move') {
+      vessel.x = start.x + dx;
+      vessel.y = start.y + dy;
+    } else {
+      vessel.width = Math.max(MIN_VESSEL_WIDTH, start.width + dx);
+      vessel.height = Math.max(MIN_VESSEL_HEIGHT, start.height + dy);
+    }
+    this.publishVessels();
+    this.invalidate();
+  }
+
+  private dropVessel() {
+    const drag = this.vesselDrag;
+    this.vesselDrag = null;
+    const vessel = this.findVessel(drag?.vesselId ?? null);
+    if (!drag || !vessel) return;
+    const moved = { x: vessel.x, y: vessel.y, width: vessel.width, height: vessel.height };
+    const { start } = drag;
+    if (moved.x === start.x && moved.y === start.y && moved.width === start.width && moved.height === start.height) return;
+    // Plant canvases are plant-local, so only the composite needs redoing
+    const place = (box: Rect) => {
+      Object.assign(vessel, box);
+      this.invalidate();
+    };
+    this.recordCommand({
+      label: drag.handle === 'move' ? 'Move vessel' : 'Resize vessel',
+      undo: () => place(start),
+      redo: () => place(moved)
+    }, vessel);
+    this.scheduleSave();
+  }
+
+  // ---- Growing
+
+  // The environment as a plant rooted at `root` (in garden coordinates) feels it
+  private getSurroundings(root: Point, walls?: Point[]): Surroundings {
+    const { environment } = this.options;
+    const { width, height } = this.size;
+    return {
+      environment,
+      light: environment.light ? { x: environment.light.x * width, y: environment.light.y * height } : null,
+      origin: root,
+      walls
+    };
+  }
+
+  // A bottle plant's surroundings where it stands now, drag included, so it grows up against the glass it is next to.
+  // Stems grow unscaled and unmirrored, so the glass, the light and the wind are turned into that frame around the root.
+  private getBottleSurroundings(plant: BottlePlant, vessel: GardenVessel) {
+    const root = this.plantRoot(plant, vessel);
+    const toLocal = (p: Point) => this.toPlantLocal(plant, vessel, p);
+    const surroundings = this.getSurroundings(root, vesselOutlineOf(vessel).map(toLocal));
+    if (surroundings.light) {
+      const light = toLocal(surroundings.light);
+      surroundings.light = { x: root.x + light.x, y: root.y + light.y };
+    }
+    if (plant.transform.mirrored) surroundings.environment = { ...surroundings.environment, windDirection: 180 - surroundings.environment.windDirection };
+    return surroundings;
+  }
+
+  // The vessel's bounds relative to a bottle plant's root, for species that grow to fill their space.
+  // Taken from where the plant was planted, so regrowing it after a drag gives the same plant.
+  private getBottleSpace(plant: GardenPlant, vessel: GardenVessel): Rect {
+    const origin = vesselOrigin(vessel);
+    const bounds = outlineBounds(vesselOutlineOf(vessel));
+    return { ...bounds, x: bounds.x - origin.x - plant.x, y: bounds.y - origin.y - plant.y };
+  }
+
+  // (Re)starts a plant from its seed and replays its first `ticks` growth steps at once, in today's environment
+  private growPlant(plant: GardenPlant, ticks: number, space?: Rect, surroundings = this.getSurroundings({ x: plant.x, y: plant.y })) {
+    const random = createRandom(plant.seed);
+    const noise = new Perlin(plant.seed);
+    plant.scene = [];
+    plant.painted = 0;
+    plant.growers = sowPlant(plant.settings, plant.scene, random, noise, space);
+    plant.age = 0;
+    while (plant.age < ticks && plant.growers.length > 0) {
+      plant.growers = stepGrowers(plant.growers, surroundings);
+      plant.age++;
+    }
+  }
+
+  private spawnPlant(x: number, y: number, overrideSettings?: PlantSettings, vessel: GardenVessel | null = null, seed: number = randomSeed(), label?: string, parents?: string[]) {
+    const s = overrideSettings || this.options.settings;
+
+    if (vessel) {
+      // Create an offscreen canvas for this plant
+      const layer = this.createBottleCanvas(this.canvasBoundsFor([]));
+      if (layer) {
+        const origin = vesselOrigin(vessel);
+        const plant: BottlePlant = {
+          id: uuid(), x: x - origin.x, y: y - origin.y, offsetX: 0, offsetY: 0, transform: IDENTITY_TRANSFORM,
+          settings: s, seed, age: 0, growers: [], scene: [], painted: 0, parents,
+          ...layer
+        };
+        const space = this.getBottleSpace(plant, vessel);
+        // The fitted genes are the plant's own from now on: they are what gets saved and copied
+        if (this.options.autoFit) plant.settings = fitToSpace(s, space);
+        this.growPlant(plant, 0, space, this.getBottleSurroundings(plant, vessel));
+        this.addBottlePlant(plant, vessel, label ?? 'Plant in vessel');
+      }
+    } else {
+      // Spawn on the outside canvas
+      const plant: GardenPlant = { id: uuid(), x, y, settings: s, seed, age: 0, growers: [], scene: [], painted: 0, parents };
+      this.growPlant(plant, 0);
+      this.outsidePlants.push(plant);
+      this.recordCommand({
+        label: label ?? 'Plant outside',
+        undo: () => {
+          this.outsidePlants = this.outsidePlants.filter(p => p !== plant);
+          this.redrawOutside();
+        },
+        redo: () => {
+          this.outsidePlants.push(plant);
+          this.redrawOutside();
+        }
+      });
+    }
+    // The new plant grows from the next frame on
+    this.wake();
+    this.scheduleSave();
+  }
+
+  // Puts a bottle plant into a vessel, undoably
+  private addBottlePlant(plant: BottlePlant, vessel: GardenVessel, label: string) {
+    vessel.plants.push(plant);
+    // Undoing keeps the plant (and its unfinished growers) around so redo can resume it,
+    // in whichever vessel it had been moved to by then
+    let holder = vessel;
+    this.recordCommand({
+      label,
+      undo: () => {
+        holder = this.vesselOfPlant(plant) ?? holder;
+        holder.plants = holder.plants.filter(p => p !== plant);
+      },
+      redo: () => {
+        if (this.vesselOfPlant(plant)) return;
+        holder.plants.push(plant);
+        this.repaintBottlePlant(plant);
+      }
+    }, vessel);
+  }
+
+  // ---- Selected plant
+
+  private findBottlePlant(id: string | null) {
+    for (const vessel of this.vessels) {
+      const plant = vessel.plants.find(p => p.id === id);
+      if (plant) return { plant, vessel };
+    }
+    return null;
+  }
+
+  // As sceneBounds, measuring only what grew since it was last asked
+  private boundsOf(plant: GardenPlant): Rect {
+    let cached = this.sceneBoxes.get(plant.scene);
+    if (!cached) {
+      cached = { measured: 0, box: { x: 0, y: 0, width: 0, height: 0 } };
+      this.sceneBoxes.set(plant.scene, cached);
+    }
+    for (; cached.measured < plant.scene.length; cached.measured++) {
+      cached.box = unionRect(cached.box, elementBounds(plant.scene[cached.measured]));
+    }
+    return cached.box;
+  }
+
+  // Where a bottle plant is drawn, in garden coordinates
+  private plantBox(plant: BottlePlant, vessel: GardenVessel) {
+    return this.placeLocal(plant, vessel, this.boundsOf(plant));
+  }
+
+  // The topmost plant in the vessel painted under the point
+  private bottlePlantAt(vessel: GardenVessel, x: number, y: number) {
+    return [...vessel.plants].reverse().find(p => {
+      if (!containsPoint(padRect(this.plantBox(p, vessel), PICK_MARGIN), x, y)) return false;
+      const local = this.toPlantLocal(p, vessel, { x, y });
+      return this.hitTester.hits(p.scene, local.x, local.y, p.transform.scale);
+    });
+  }
+
+  private selectPlant(id: string | null) {
+    this.selectedPlantId = id;
+    this.publishPlantSelection();
+  }
+
+  // Tells the page about the selected plant when it, its genes or where it is drawn changed
+  private publishPlantSelection() {
+    const found = this.findBottlePlant(this.selectedPlantId);
+    // A plant that was deleted or undone is no longer selected
+    if (!found) this.selectedPlantId = null;
+    const box = found ? this.plantBox(found.plant, found.vessel) : null;
+    const shown = this.publishedSelection;
+    const unchanged = found && box
+      ? shown?.plant === found.plant && shown.settings === found.plant.settings && shown.transform === found.plant.transform &&
+        shown.vessel === found.vessel.vessel && sameRect(shown.box, box)
+      : !shown;
+    if (unchanged) return;
+    this.publishedSelection = found && box
+      ? { plant: found.plant, settings: found.plant.settings, transform: found.plant.transform, vessel: found.vessel.vessel, box }
+      : null;
+    this.emit({
+      type: 'plantSelection',
+      plant: found ? { id: found.plant.id, settings: found.plant.settings, seed: found.plant.seed, parents: found.plant.parents } : null,
+      vessel: found?.vessel.vessel,
+      transform: found?.plant.transform,
+      box
+    });
+  }
+
+  // Tells the page which plant a right-click would copy, when that or where it is drawn changed
+  private publishHover() {
+    const found = this.hoverPoint ? this.plantAt(this.hoverPoint.x, this.hoverPoint.y) : null;
+    const shown = this.publishedHover;
+    if (found ? shown?.plant === found.plant && sameRect(shown.box, found.box) : !shown) return;
+    this.publishedHover = found;
+    this.emit({ type: 'hover', box: found?.box ?? null });
+  }
+
+  // Regrows a plant from its seed with new genes, as far as it had grown. A run of edits to the same gene is one undo step.
+  private editPlant(id: string, settings: PlantSettings) {
+    const found = this.findBottlePlant(id);
+    if (!found) return;
+    const { plant } = found;
+    const before = plant.settings;
+    const changed = Object.keys(settings).filter(key => settings[key as keyof PlantSettings] !== before[key as keyof PlantSettings]).join();
+    if (!changed) return;
+    const apply = (genes: PlantSettings) => {
+      const vessel = this.vesselOfPlant(plant);
+      if (!vessel) return;
+      plant.settings = genes;
+      this.growPlant(plant, plant.age, this.getBottleSpace(plant, vessel), this.getBottleSurroundings(plant, vessel));
+      this.repaintBottlePlant(plant);
+      this.invalidate();
+    };
+    apply(settings);
+    this.recordPlantChange(plant, found.vessel, `genes:${changed}`, 'Edit plant', apply, before, settings);
+    this.scheduleSave();
+  }
+
+  // Rescales or mirrors a plant around its root; it keeps growing the same, only drawn differently
+  private transformPlant(id: string, changes: Partial<PlantTransform>) {
+    const found = this.findBottlePlant(id);
+    if (!found) return;
+    const { plant } = found;
+    const before = plant.transform;
+    const after = { ...before, ...changes };
+    after.scale = Math.max(MIN_PLANT_SCALE, Math.min(MAX_PLANT_SCALE, after.scale));
+    if (after.scale === before.scale && after.mirrored === before.mirrored) return;
+    const apply = (transform: PlantTransform) => {
+      plant.transform = transform;
+      this.invalidate();
+    };
+    apply(after);
+    if (after.mirrored !== before.mirrored) this.recordPlantChange(plant, found.vessel, null, 'Mirror plant', apply, before, after);
+    else this.recordPlantChange(plant, found.vessel, 'scale', 'Resize plant', apply, before, after);
+    this.scheduleSave();
+  }
+
+  // Moves a plant one step up (toward the front) or down the stacking order of its vessel
+  private reorderPlant(id: string, direction: 1 | -1) {
+    const found = this.findBottlePlant(id);
+    if (!found) return;
+    const { plant, vessel } = found;
+    const index = vessel.plants.indexOf(plant);
+    const to = index + direction;
+    if (to < 0 || to >= vessel.plants.length) return;
+    const move = (by: number) => {
+      const holder = this.vesselOfPlant(plant);
+      if (!holder) return;
+      const at = holder.plants.indexOf(plant);
+      holder.plants.splice(at, 1);
+      holder.plants.splice(Math.max(0, Math.min(holder.plants.length, at + by)), 0, plant);
+      this.invalidatePlant(plant, holder);
+    };
+    move(direction);
+    this.recordCommand({
+      label: direction > 0 ? 'Bring plant forward' : 'Send plant back',
+      undo: () => move(-direction),
+      redo: () => move(direction)
+    }, vessel);
+    this.scheduleSave();
+  }
+
+  // Records a change to one plant. Changes to the same `property` in a row (a slider or pinch being dragged)
+  // are one undo step; null never merges.
+  private recordPlantChange<T>(plant: BottlePlant, vessel: GardenVessel, property: string | null, label: string, apply: (value: T) => void, before: T, after: T) {
+    const last = this.lastChange;
+    if (property && last && last.plantId === plant.id && last.property === property && vessel.history.latest === last.command) {
+      last.after = after;
+      return;
+    }
+    const change = {
+      plantId: plant.id,
+      property: property ?? '',
+      after: after as unknown,
+      command: { label, undo: () => apply(before), redo: () => apply(change.after as T) }
+    };
+    this.lastChange = property ? change : null;
+    this.recordCommand(change.command, vessel);
+  }
+
+  private deletePlant(id: string) {
+    const found = this.findBottlePlant(id);
+    if (!found) return;
+    const { plant } = found;
+    let holder = found.vessel;
+    const remove = () => {
+      holder = this.vesselOfPlant(plant) ?? holder;
+      holder.plants = holder.plants.filter(p => p !== plant);
+    };
+    // Put back where it was in the stacking order
+    const index = holder.plants.indexOf(plant);
+    remove();
+    this.recordCommand({
+      label: 'Delete plant',
+      undo: () => {
+        if (this.vesselOfPlant(plant)) return;
+        holder.plants.splice(Math.min(index, holder.plants.length), 0, plant);
+        this.repaintBottlePlant(plant);
+      },
+      redo: remove
+    }, holder);
+    this.invalidate();
+    this.scheduleSave();
+  }
+
+  // A copy of the plant, grown just as far, standing next to it; the copy becomes the selected plant
+  private duplicatePlant(id: string) {
+    const found = this.findBottlePlant(id);
+    if (!found) return;
+    const { plant, vessel } = found;
+    const layer = this.createBottleCanvas(this.canvasBoundsFor([]));
+    if (!layer) return;
+    const copy: BottlePlant = {
+      id: uuid(), x: plant.x, y: plant.y, offsetX: plant.offsetX, offsetY: plant.offsetY, transform: plant.transform,
+      settings: plant.settings, seed: plant.seed, age: 0, growers: [], scene: [], painted: 0, parents: plant.parents,
+      ...layer
+    };
+    // To the right if there is room, else to the left
+    const right = this.clampPlacement(copy, vessel, plant.offsetX + DUPLICATE_SHIFT, plant.offsetY, plant.offsetX);
+    Object.assign(copy, right.offsetX > plant.offsetX ? right : this.clampPlacement(copy, vessel, plant.offsetX - DUPLICATE_SHIFT, plant.offsetY, plant.offsetX));
+    this.growPlant(copy, plant.age, this.getBottleSpace(copy, vessel), this.getBottleSurroundings(copy, vessel));
+    this.repaintBottlePlant(copy);
+    this.addBottlePlant(copy, vessel, 'Duplicate plant');
+    this.selectPlant(copy.id);
+    this.invalidate();
+    this.scheduleSave();
+  }
+
+  // Into the selected vessel, or the first one, on its floor in the middle
+  private plantInVessel(settings: PlantSettings, seed: number, parents?: string[], dnaVessel?: Vessel) {
+    const target = this.findVessel(this.selectedId) ?? this.vessels[0];
+    if (!target) return;
+    // An empty vessel takes on the shape the DNA was grown in
+    if (dnaVessel && target.plants.length === 0 && dnaVessel.path !== target.vessel.path) {
+      target.vessel = dnaVessel;
+      this.publishVessels();
+    }
+    const floor = vesselFloor(target.vessel);
+    const x = target.x + floor.x * target.width / VESSEL_WIDTH;
+    const y = target.y + floor.y * target.height / VESSEL_HEIGHT - FLOOR_CLEARANCE;
+    this.spawnPlant(x, y, settings, target, seed, parents ? 'Plant offspring' : 'Import DNA', parents);
+  }
+
+  // Drops a bottle plant into another vessel, rooted on that vessel's floor below where it was let go
+  private transferPlant(plant: BottlePlant, from: GardenVessel, to: GardenVessel, rootX: number, start: { offsetX: number; offsetY: number }) {
+    const outline = vesselOutlineOf(to);
+    const toOrigin = vesselOrigin(to);
+    let x = rootX;
+    let floor = floorAt(outline, x);
+    if (floor === null) {
+      x = toOrigin.x;
+      floor = floorAt(outline, x) ?? toOrigin.y;
+    }
+    const before = { x: plant.x, y: plant.y, ...start };
+    const after = { x: x - toOrigin.x, y: floor - FLOOR_CLEARANCE - toOrigin.y, offsetX: 0, offsetY: 0 };
+    const move = (source: GardenVessel, target: GardenVessel, place: typeof before) => {
+      if (!source.plants.includes(plant)) return;
+      source.plants = source.plants.filter(p => p !== plant);
+      target.plants.push(plant);
+      Object.assign(plant, place);
+      this.invalidate();
+    };
+    move(from, to, after);
+    this.recordCommand({
+      label: 'Move plant to another vessel',
+      undo: () => move(to, from, before),
+      redo: () => move(from, to, after)
+    }, to);
+  }
+
+  private clearOutside() {
+    const cleared = this.outsidePlants;
+    this.fillPaper();
+    this.outsidePlants = [];
+    this.recordCommand({
+      label: 'Start New Page',
+      undo: () => {
+        this.outsidePlants = cleared;
+        this.redrawOutside();
+      },
+      redo: () => {
+        this.outsidePlants = [];
+        this.fillPaper();
+      }
+    });
+    this.scheduleSave();
+  }
+
+  // ---- History
+
+  // Records into a vessel's own history, or the garden's; whichever it is becomes the one undo acts on
+  private recordCommand(command: Command, vessel?: GardenVessel) {
+    (vessel ? vessel.history : this.history).record(command);
+    this.selectVessel(vessel ? vessel.id : null);
+  }
+
+  private stepHistory(direction: 'undo' | 'redo') {
+    const history = this.activeHistory();
+    const command = direction === 'undo' ? history.undo() : history.redo();
+    this.reportHistory();
+    if (command) {
+      this.publishVessels();
+      this.invalidate();
+      this.scheduleSave();
+    }
+    return command?.label ?? null;
+  }
+
+  // ---- Pointer
+
+  // The topmost plant painted under the point, on either layer: bottle plants show over the plants outside,
+  // and through the glass of the vessels in front of theirs
+  private plantAt(x: number, y: number): { plant: GardenPlant; box: Rect } | null {
+    for (const vessel of [...this.vessels].reverse()) {
+      if (!insideOutline(vesselOutlineOf(vessel), x, y)) continue;
+      const plant = this.bottlePlantAt(vessel, x, y);
+      if (plant) return { plant, box: this.plantBox(plant, vessel) };
+    }
+    for (const plant of [...this.outsidePlants].reverse()) {
+      const box = translateRect(this.boundsOf(plant), plant.x, plant.y);
+      if (containsPoint(padRect(box, PICK_MARGIN), x, y) && this.hitTester.hits(plant.scene, x - plant.x, y - plant.y)) return { plant, box };
+    }
+    return null;
+  }
+
+  private copyPlantAt(x: number, y: number) {
+    const closest = this.plantAt(x, y)?.plant;
+    if (this.options.pickingParents) {
+      if (closest) this.emit({ type: 'parentPicked', plant: { id: closest.id, settings: closest.settings, seed: closest.seed, parents: closest.parents } });
+      return;
+    }
+    if (closest) {
+      this.emit({ type: 'copied', settings: closest.settings, seed: closest.seed, vessel: this.vesselOfPlant(closest)?.vessel });
+    } else {
+      this.emit({ type: 'copied', settings: this.options.settings, seed: randomSeed() });
+    }
+  }
+
+  private pointerDown(x: number, y: number) {
+    // Whichever vessel was pressed becomes the selected one; the paper selects the garden
+    const vessel = this.vesselAt(x, y);
+    this.selectVessel(vessel ? vessel.id : null);
+    if (!vessel) {
+      this.selectPlant(null);
+      return;
+    }
+
+    // A bottle plant under the pointer is selected and picked up
+    const plant = this.bottlePlantAt(vessel, x, y);
+    this.selectPlant(plant ? plant.id : null);
+    if (plant) {
+      this.drag = { plantId: plant.id, vesselId: vessel.id, startX: x, startY: y, plantStartOffsetX: plant.offsetX, plantStartOffsetY: plant.offsetY, targetId: null };
+    }
+  }
+
+  private pointerMove(x: number, y: number) {
+    const drag = this.drag;
+    if (!drag) return;
+    const vessel = this.findVessel(drag.vesselId);
+    const plant = vessel?.plants.find(p => p.id === drag.plantId);
+    if (!vessel || !plant) return;
+
+    // Both where the plant was shown and where it goes need recompositing
+    this.invalidatePlant(plant, vessel);
+    const wasTarget = drag.targetId;
+    const offsetX = drag.plantStartOffsetX + (x - drag.startX);
+    const offsetY = drag.plantStartOffsetY + (y - drag.startY);
+
+    // Over another vessel the plant is carried freely, to be dropped in there
+    const over = this.vesselAt(x, y);
+    drag.targetId = over && over !== vessel ? over.id : null;
+    Object.assign(plant, drag.targetId ? { offsetX, offsetY } : this.clampPlacement(plant, vessel, offsetX, offsetY, drag.plantStartOffsetX));
+    this.invalidatePlant(plant, vessel);
+    if (drag.targetId !== wasTarget) this.publishVessels();
+  }
+
+  // Keeps a bottle plant's root inside its vessel: within the line it stands on at `fromOffsetX`,
+  // and on the ground between the floor and the soil line above it (plant x is relative to the vessel's center)
+  private clampPlacement(plant: BottlePlant, vessel: GardenVessel, offsetX: number, offsetY: number, fromOffsetX: number) {
+    const origin = vesselOrigin(vessel);
+    const outline = vesselOutlineOf(vessel);
+    const span = spanAt(outline, origin.y + plant.y + plant.offsetY, origin.x + plant.x + fromOffsetX);
+    if (span) {
+      const left = span[0] + 20 - origin.x - plant.x;
+      const right = span[1] - 20 - origin.x - plant.x;
+      offsetX = left <= right ? Math.max(left, Math.min(right, offsetX)) : (left + right) / 2;
+    }
+    const floor = floorAt(outline, origin.x + plant.x + offsetX);
+    if (floor !== null) {
+      const lowest = floor - FLOOR_CLEARANCE - origin.y - plant.y;
+      const highest = lowest - vessel.height * SOIL_DEPTH;
+      offsetY = Math.max(highest, Math.min(lowest, offsetY));
+    }
+    return { offsetX, offsetY };
+  }
+
+  private pointerUp() {
+    const drag = this.drag;
+    if (!drag) return;
+    this.drag = null;
+    this.invalidate();
+    const vessel = this.findVessel(drag.vesselId);
+    const plant = vessel?.plants.find(p => p.id === drag.plantId);
+    const target = this.findVessel(drag.targetId);
+    if (vessel && plant && target) {
+      this.transferPlant(plant, vessel, target, this.plantRoot(plant, vessel).x, { offsetX: drag.plantStartOffsetX, offsetY: drag.plantStartOffsetY });
+      this.scheduleSave();
+    } else if (vessel && plant && (plant.offsetX !== drag.plantStartOffsetX || plant.offsetY !== drag.plantStartOffsetY)) {
+      const movedTo = { offsetX: plant.offsetX, offsetY: plant.offsetY };
+      const start = { offsetX: drag.plantStartOffsetX, offsetY: drag.plantStartOffsetY };
+      this.recordCommand({
+        label: 'Move bottle plant',
+        undo: () => { Object.assign(plant, start); },
+        redo: () => { Object.assign(plant, movedTo); }
+      }, vessel);
+      this.scheduleSave();
+    }
+    // Clears the drop target highlight
+    if (drag.targetId) this.publishVessels();
+  }
+
+  // ---- Painting
+
+  // Sizes a layer's backing store in device pixels while its context keeps drawing in CSS pixels
+  private allocateLayers() {
+    const { width, height, pixelRatio } = this.size;
+    [this.outside, this.inside].forEach(canvas => {
+      canvas.width = Math.round(width * pixelRatio);
+      canvas.height = Math.round(height * pixelRatio);
+      context2d(canvas)?.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    });
+  }
+
+  // Each bottle plant grows on its own offscreen canvas, just big enough for `bounds` (plant-local)
+  private createBottleCanvas(bounds: Rect) {
+    const { pixelRatio } = this.size;
+    const canvas = createLayer(Math.max(1, Math.ceil(bounds.width * pixelRatio)), Math.max(1, Math.ceil(bounds.height * pixelRatio)));
+    const ctx = context2d(canvas);
+    ctx?.setTransform(pixelRatio, 0, 0, pixelRatio, -bounds.x * pixelRatio, -bounds.y * pixelRatio);
+    return ctx ? { canvas, ctx, bounds } : null;
+  }
+
+  // Canvas room for a plant that has grown `scene` so far
+  private canvasBoundsFor(scene: SceneElement[]) {
+    return padRect(sceneBounds(scene), CANVAS_PADDING + CANVAS_GROWTH);
+  }
+
+  // Enlarges a plant's canvas to take in `needed` (plant-local), keeping what is already painted on it
+  private fitPlantCanvas(plant: BottlePlant, needed: Rect) {
+    if (containsRect(plant.bounds, needed)) return;
+    const layer = this.createBottleCanvas(padRect(unionRect(plant.bounds, needed), CANVAS_GROWTH));
+    if (!layer) return;
+    layer.ctx.drawImage(plant.canvas, plant.bounds.x, plant.bounds.y, plant.bounds.width, plant.bounds.height);
+    Object.assign(plant, layer);
+  }
+
+  // Paints whatever the plant grew since it was last painted, with its root at (x, y)
+  private paintPlant(plant: GardenPlant, ctx: LayerContext, x: number, y: number) {
+    renderScene(ctx, plant.scene, x, y, plant.painted);
+    plant.painted = plant.scene.length;
+  }
+
+  // Paints what a bottle plant grew since it was last painted; returns the plant-local area that changed, if any
+  private paintBottlePlant(plant: BottlePlant): Rect | null {
+    let fresh: Rect | null = null;
+    for (let i = plant.painted; i < plant.scene.length; i++) {
+      const bounds = elementBounds(plant.scene[i]);
+      fresh = fresh ? unionRect(fresh, bounds) : bounds;
+    }
+    if (!fresh) return null;
+    fresh = padRect(fresh, CANVAS_PADDING);
+    this.fitPlantCanvas(plant, fresh);
+    this.paintPlant(plant, plant.ctx, 0, 0);
+    return fresh;
+  }
+
+  // Gives a bottle plant a fresh canvas at the current pixel ratio and repaints its whole scene on it
+  private repaintBottlePlant(plant: BottlePlant) {
+    const layer = this.createBottleCanvas(this.canvasBoundsFor(plant.scene));
+    if (!layer) return;
+    Object.assign(plant, layer);
+    plant.painted = 0;
+    this.paintPlant(plant, layer.ctx, 0, 0);
+  }
+
+  private fillPaper() {
+    const ctx = context2d(this.outside);
+    if (ctx) {
+      ctx.fillStyle = PAPER_COLOR;
+      ctx.fillRect(0, 0, this.size.width, this.size.height);
+    }
+  }
+
+  // The outside layer has no per-plant canvases, so removing a plant means repainting the rest
+  private redrawOutside() {
+    this.fillPaper();
+    const ctx = context2d(this.outside);
+    if (ctx) {
+      this.outsidePlants.forEach(plant => {
+        plant.painted = 0;
+        this.paintPlant(plant, ctx, plant.x, plant.y);
+      });
+    }
+  }
+
+  // Repaints every plant from its scene, e.g. after the layers were resized
+  private redrawAll() {
+    this.redrawOutside();
+    this.vessels.forEach(vessel => vessel.plants.forEach(plant => this.repaintBottlePlant(plant)));
+    this.invalidate();
+  }
+
+  // Marks an area of the bottle layer (all of it by default) to be recomposited on the next frame
+  private invalidate(area?: Rect) {
+    if (area) this.dirty.add(area);
+    else this.dirty.addAll();
+    this.wake();
+  }
+
+  // Where a bottle plant's root is, drag included, in garden coordinates
+  private plantRoot(plant: BottlePlant, vessel: GardenVessel): Point {
+    const origin = vesselOrigin(vessel);
+    return { x: origin.x + plant.x + plant.offsetX, y: origin.y + plant.y + plant.offsetY };
+  }
+
+  // A garden point in a bottle plant's own unscaled, unmirrored frame around its root
+  private toPlantLocal(plant: BottlePlant, vessel: GardenVessel, p: Point): Point {
+    const root = this.plantRoot(plant, vessel);
+    const { scale, mirrored } = plant.transform;
+    return { x: (p.x - root.x) * (mirrored ? -1 : 1) / scale, y: (p.y - root.y) / scale };
+  }
+
+  // Where a plant-local area of a bottle plant ends up in the garden, scaled and mirrored around its root
+  private placeLocal(plant: BottlePlant, vessel: GardenVessel, area: Rect): Rect {
+    const root = this.plantRoot(plant, vessel);
+    const { scale, mirrored } = plant.transform;
+    const x = mirrored ? -(area.x + area.width) : area.x;
+    return { x: root.x + x * scale, y: root.y + area.y * scale, width: area.width * scale, height: area.height * scale };
+  }
+
+  private invalidatePlant(plant: BottlePlant, vessel: GardenVessel) {
+    this.invalidate(this.placeLocal(plant, vessel, plant.bounds));
+  }
+
+  // ---- Animation
+
+  // Schedules a frame if the loop is idle
+  private wake() {
+    if (this.frameRequested || this.disposed) return;
+    this.frameRequested = true;
+    requestFrame(() => this.frame());
+  }
+
+  private frame() {
+    this.frameRequested = false;
+    if (this.disposed) return;
+    const { pace, instant } = this.options;
+
+    // 1. Grow plants by however many fixed ticks are due, and paint what they grew
+    const ticks = !pace.playing ? 0 : instant ? INSTANT_GROWTH_TICKS : this.clock.advance(performance.now(), pace.speed);
+    const growing = this.grow(ticks);
+
+    // 2. Composite Bottle Plants, only where something changed
+    this.composite();
+
+    // The loop goes idle once nothing is growing (or growth is paused); anything that changes the garden wakes it again
+    if (growing && pace.playing) this.wake();
+    else this.clock.reset();
+    // The highlights follow the selected and the hovered plant as they grow and move
+    this.publishPlantSelection();
+    this.publishHover();
+  }
+
+  // Runs up to `ticks` growth steps on every plant still growing; returns whether any of them still is
+  private grow(ticks: number) {
+    let growing = false;
+    const growSteps = (plant: GardenPlant, surroundings: Surroundings) => {
+      if (plant.growers.length === 0 || ticks === 0) {
+        growing = growing || plant.growers.length > 0;
+        return false;
+      }
+      for (let i = 0; i < ticks && plant.growers.length > 0; i++) {
+        plant.growers = stepGrowers(plant.growers, surroundings);
+        plant.age++;
+      }
+      // Persist the final growth stage once a plant is done
+      if (plant.growers.length === 0) this.scheduleSave();
+      else growing = true;
+      return true;
+    };
+
+    const ctxOut = context2d(this.outside);
+    this.outsidePlants.forEach(plant => {
+      if (growSteps(plant, this.getSurroundings({ x: plant.x, y: plant.y })) && ctxOut) this.paintPlant(plant, ctxOut, plant.x, plant.y);
+    });
+
+    this.vessels.forEach(vessel => vessel.plants.forEach(plant => {
+      if (!growSteps(plant, this.getBottleSurroundings(plant, vessel))) return;
+      const fresh = this.paintBottlePlant(plant);
+      if (fresh) {
+        this.dirty.add(this.placeLocal(plant, vessel, fresh));
+      }
+    }));
+    return growing;
+  }
+
+  private composite() {
+    const ctx = context2d(this.inside);
+    if (!ctx || this.dirty.isEmpty) return;
+    const dirty = this.dirty.take();
+    const areas = dirty === 'all' ? [{ x: 0, y: 0, width: this.size.width, height: this.size.height }] : dirty;
+    const carriedId = this.drag?.targetId ? this.drag.plantId : null;
+    let carried = null as { plant: BottlePlant; vessel: GardenVessel } | null;
+    const drawPlant = (plant: BottlePlant, vessel: GardenVessel, area: Rect) => {
+      if (!rectsIntersect(this.placeLocal(plant, vessel, plant.bounds), area)) return;
+      const root = this.plantRoot(plant, vessel);
+      const { scale, mirrored } = plant.transform;
+      const { bounds } = plant;
+      ctx.save();
+      ctx.translate(root.x, root.y);
+      ctx.scale(mirrored ? -scale : scale, scale);
+      ctx.drawImage(plant.canvas, bounds.x, bounds.y, bounds.width, bounds.height);
+      ctx.restore();
+    };
+
+    areas.forEach(area => {
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(area.x, area.y, area.width, area.height);
+      ctx.clip();
+      ctx.clearRect(area.x, area.y, area.width, area.height);
+      this.vessels.forEach(vessel => {
+        // Leaves and blooms can still reach past the glass; nothing shows outside it
+        ctx.save();
+        traceOutline(ctx, vesselOutlineOf(vessel));
+        ctx.clip();
+        vessel.plants.forEach(plant => {
+          if (plant.id === carriedId) carried = { plant, vessel };
+          else drawPlant(plant, vessel, area);
+        });
+        ctx.restore();
+      });
+      // A plant carried over another vessel is drawn whole, on top
+      if (carried) drawPlant(carried.plant, carried.vessel, area);
+      ctx.restore();
+    });
+  }
+
+  // ---- Saving
+
+  // The garden as currently shown, for the SVG and PNG exporters
+  private takeSnapshot(): GardenSnapshot {
+    return {
+      width: this.size.width,
+      height: this.size.height,
+      background: PAPER_COLOR,
+      outside: this.outsidePlants.map(p => ({ scene: p.scene, x: p.x, y: p.y })),
+      vessels: this.vessels.map(v => ({
+        id: v.id, vessel: v.vessel, x: v.x, y: v.y, width: v.width, height: v.height,
+        // Bottle plants are exported where and how they are shown, drag offset included
+        plants: v.plants.map(p => ({ scene: p.scene, ...this.plantRoot(p, v), transform: p.transform }))
+      }))
+    };
+  }
+
+  private scheduleSave() {
+    if (this.restoreState === 'failed') return;
+    if (this.restoreState === 'loading') {
+      this.saveWanted = true;
+      return;
+    }
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      const gardenSize: GardenExtent = { width: this.size.width, height: this.size.height };
+      const toStored = (plant: GardenPlant, layer: GardenLayer, order: number, vesselId?: string): StoredPlant => ({
+        id: plant.id, layer, order, x: plant.x, y: plant.y, offsetX: 0, offsetY: 0, transform: IDENTITY_TRANSFORM, vesselId,
+        settings: plant.settings, seed: plant.seed, age: plant.age, parents: plant.parents, gardenSize
+      });
+      const plants = this.outsidePlants.map((p, i) => toStored(p, 'outside', i));
+      this.vessels.forEach(v => v.plants.forEach(p => plants.push({
+        ...toStored(p, 'bottle', plants.length, v.id), offsetX: p.offsetX, offsetY: p.offsetY, transform: p.transform
+      })));
+      const vessels = this.vessels.map(({ id, vessel, x, y, width, height }, order): StoredVessel => ({ id, vessel, x, y, width, height, order, gardenSize }));
+      saveGarden(plants, vessels).catch(e => console.error("Failed to save garden", e));
+      saveEnvironment(this.options.environment).catch(e => console.error("Failed to save environment", e));
+    }, SAVE_DELAY_MS);
+  }
+
+  // Restores the saved garden, once, on startup
+  private restore() {
+    // A garden with no saved vessels starts with one, in the shape a single-vessel save had
+    const ensureVessel = (shape: Vessel | null) => {
+      if (this.vessels.length === 0) this.vessels.push(this.placeNewVessel(shape ?? DEFAULT_VESSEL));
+      this.publishVessels();
+    };
+    Promise.all([loadGarden(), loadEnvironment(), loadVessels(), loadLegacyVessel()]).then(([records, savedEnvironment, savedVessels, legacyVessel]) => {
+      if (this.disposed) return;
+      this.restoreState = 'restored';
+      // Plants added during the load are saved together with the restored ones
+      if (this.saveWanted) this.scheduleSave();
+      // Plants regrow in the environment and vessels they were saved with, unless the environment was changed during
+      // the load; that change is kept and saved instead
+      if (JSON.stringify(this.options.environment) === this.startEnvironment) {
+        this.options = { ...this.options, environment: savedEnvironment };
+        this.emit({ type: 'environmentRestored', environment: savedEnvironment });
+      } else {
+        this.scheduleSave();
+      }
+      // Saved in a garden of another size, the layout is projected into this one; older saves have no size and stay put
+      const savedIn = (saved?: GardenExtent) =>
+        saved && saved.width > 0 && saved.height > 0 && this.size.width > 0 && this.size.height > 0 ? saved : null;
+      this.vessels = savedVessels.map(({ id, vessel, x, y, width, height, gardenSize }) => {
+        const from = savedIn(gardenSize);
+        const at = from ? reprojectVessel({ x, y, width, height }, from, this.size) : { x, y };
+        return { id, vessel, ...at, width, height, plants: [], history: new CommandHistory() };
+      });
+      ensureVessel(legacyVessel);
+      if (records.length === 0) return;
+      const toPlant = (r: StoredPlant, x = r.x, y = r.y): GardenPlant => ({
+        id: r.id, x, y, settings: r.settings, seed: r.seed, age: 0, growers: [], scene: [], painted: 0, parents: r.parents
+      });
+      // Anything planted before the load finished stays on top. Bottle plants stand relative to their vessel, which
+      // keeps its size, so only plants outside are projected.
+      const outside = records.filter(r => r.layer === 'outside').map(r => {
+        const from = savedIn(r.gardenSize);
+        const plant = from ? toPlant(r, r.x * this.size.width / from.width, r.y * this.size.height / from.height) : toPlant(r);
+        this.growPlant(plant, r.age);
+        return plant;
+      });
+      this.outsidePlants = [...outside, ...this.outsidePlants];
+      // Bottle plants saved before there were several vessels belong to the first one
+      records.filter(r => r.layer === 'bottle').forEach(r => {
+        const vessel = this.findVessel(r.vesselId ?? null) ?? this.vessels[0];
+        // Sized properly once regrown, by redrawAll below
+        const layer = this.createBottleCanvas(this.canvasBoundsFor([]));
+        if (!layer) return;
+        const plant: BottlePlant = { ...toPlant(r), offsetX: r.offsetX, offsetY: r.offsetY, transform: r.transform, ...layer };
+        this.growPlant(plant, r.age, this.getBottleSpace(plant, vessel), this.getBottleSurroundings(plant, vessel));
+        vessel.plants.push(plant);
+      });
+      this.redrawAll();
+    }).catch(e => {
+      this.restoreState = 'failed';
+      console.error("Failed to load garden; changes will not be saved this session", e);
+      if (!this.disposed) ensureVessel(null);
+    });
+  }
+}
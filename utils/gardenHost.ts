@@ -0,0 +1,118 @@
+// Starts the garden engine behind one message interface: in a worker rendering to OffscreenCanvas where the
+// browser can transfer canvases to one, and on the main thread otherwise
+
+import { GardenEngine } from './gardenEngine';
+import { GardenCall, GardenCalls, GardenEvent, GardenOptions, GardenRequest, GardenSize, GardenWorkerInit } from './gardenProtocol';
+
+export interface GardenHost {
+  send: (request: Exclude<GardenRequest, GardenCall>) => void;
+  call: <K extends keyof GardenCalls>(type: K) => Promise<GardenCalls[K]>;
+  inWorker: boolean; // False once a failed worker has been replaced
+  dispose: () => void;
+}
+
+const canUseWorker = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && 'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+
+// Takes over both layers for good: once handed to a worker, a canvas can only be drawn to from there
+export const startGarden = (outside: HTMLCanvasElement, inside: HTMLCanvasElement, size: GardenSize, options: GardenOptions, onEvent: (event: GardenEvent) => void): GardenHost => {
+  let nextCallId = 0;
+  const pending = new Map<number, { resolve: (result: GardenCalls[keyof GardenCalls]) => void; reject: (error: Error) => void }>();
+  const receive = (event: GardenEvent) => {
+    if (event.type !== 'reply') {
+      onEvent(event);
+      return;
+    }
+    pending.get(event.callId)?.resolve(event.result);
+    pending.delete(event.callId);
+  };
+  // Calls whose engine is gone are never answered
+  const rejectPending = (error: Error) => {
+    pending.forEach(call => call.reject(error));
+    pending.clear();
+  };
+
+  // Kept up to date so an engine started after a worker failed begins with the current size and options
+  let latestSize = size;
+  let latestOptions = options;
+  const track = (request: GardenRequest) => {
+    if (request.type === 'resize') latestSize = request.size;
+    else if (request.type === 'configure') latestOptions = { ...latestOptions, ...request.options };
+  };
+
+  let post: (request: GardenRequest) => void;
+  let stop: () => void;
+  let inWorker = false;
+  let disposed = false;
+  const startInThread = (outsideLayer: HTMLCanvasElement, insideLayer: HTMLCanvasElement) => {
+    const engine = new GardenEngine(outsideLayer, insideLayer, latestSize, latestOptions, receive);
+    post = request => engine.handle(request);
+    stop = () => engine.dispose();
+    inWorker = false;
+  };
+
+  try {
+    if (!canUseWorker()) throw new Error('OffscreenCanvas is not available');
+    const worker = new Worker(new URL('./gardenWorker.ts', import.meta.url), { type: 'module' });
+    const init: GardenWorkerInit = {
+      type: 'init',
+      outside: outside.transferControlToOffscreen(),
+      inside: inside.transferControlToOffscreen(),
+      size,
+      options
+    };
+    worker.onmessage = (e: MessageEvent<GardenEvent>) => receive(e.data);
+    // A worker that failed to load or crashed is replaced by an engine on the main thread, which restores the saved
+    // garden. The transferred layers belong to the worker for good, so it draws to fresh copies of them.
+    worker.onerror = (e) => {
+      console.error("Garden worker failed; the garden runs on the main thread instead", e);
+      worker.terminate();
+      rejectPending(new Error('The garden worker failed'));
+      if (disposed) return;
+      const replace = (canvas: HTMLCanvasElement) => {
+        const fresh = canvas.cloneNode() as HTMLCanvasElement;
+        canvas.replaceWith(fresh);
+        return fresh;
+      };
+      const freshOutside = replace(outside);
+      const freshInside = replace(inside);
+      startInThread(freshOutside, freshInside);
+      const stopEngine = stop;
+      stop = () => {
+        stopEngine();
+        freshOutside.remove();
+        freshInside.remove();
+      };
+    };
+    worker.postMessage(init, [init.outside, init.inside]);
+    post = request => worker.postMessage(request);
+    stop = () => worker.terminate();
+    inWorker = true;
+  } catch {
+    startInThread(outside, inside);
+  }
+
+  return {
+    send: request => {
+      track(request);
+      post(request);
+    },
+    call: <K extends keyof GardenCalls>(type: K) => new Promise<GardenCalls[K]>((resolve, reject) => {
+      if (disposed) {
+        reject(new Error('The garden has stopped'));
+        return;
+      }
+      const callId = nextCallId++;
+      pending.set(callId, { resolve: result => resolve(result as GardenCalls[K]), reject });
+      post({ type, callId } as GardenCall);
+    }),
+    get inWorker() {
+      return inWorker;
+    },
+    dispose: () => {
+      disposed = true;
+      stop();
+      rejectPending(new Error('The garden has stopped'));
+    }
+  };
+};
@@ -0,0 +1,77 @@
+// Messages between GardenCanvas and the garden engine, which runs in a worker when OffscreenCanvas is available
+// and on the main thread otherwise. Positions are in CSS pixels relative to the garden.
+
+import { Environment, GardenSnapshot, GrowthPace, PlacedVessel, PlantSettings, PlantSummary, PlantTransform, Point, Rect, SceneElement, Vessel } from '../types';
+
+// What the engine needs to know about the page around it
+export interface GardenOptions {
+  settings: PlantSettings; // Planted on double-click, and copied when there is no plant under a right-click
+  environment: Environment;
+  autoFit: boolean; // Shrink new bottle plants so they fit under the rim
+  pickingParents: boolean; // While breeding, right-click and long-press pick parents instead of copying DNA
+  pace: GrowthPace;
+  instant: boolean; // Plants finish growing as soon as they are planted, for users who prefer reduced motion
+}
+
+export interface GardenSize {
+  width: number;
+  height: number;
+  pixelRatio: number; // Layers are allocated in device pixels
+}
+
+// Requests that get an answer, by type, with the type of their answer
+export interface GardenCalls {
+  undo: string | null; // Label of the undone action, or null when there was nothing to undo
+  redo: string | null;
+  snapshot: GardenSnapshot; // For the SVG and PNG exporters
+}
+
+export type GardenCall = { [K in keyof GardenCalls]: { type: K; callId: number } }[keyof GardenCalls];
+
+export type VesselHandle = 'move' | 'resize';
+
+export type GardenRequest =
+  | GardenCall
+  | { type: 'resize'; size: GardenSize }
+  | { type: 'configure'; options: Partial<GardenOptions> }
+  | { type: 'plantAt'; x: number; y: number } // Into the vessel under the point, or outside
+  | { type: 'plantInVessel'; settings: PlantSettings; seed: number; parents?: string[]; vessel?: Vessel } // Pasted DNA or bred offspring
+  | { type: 'pointerDown'; x: number; y: number } // Selects what is under the pointer and picks up a bottle plant
+  | { type: 'pointerMove'; x: number; y: number }
+  | { type: 'pointerUp' }
+  | { type: 'hover'; point: Point | null } // Where the pointer rests while not pressed; null once it left
+  | { type: 'copyAt'; x: number; y: number }
+  | { type: 'exportPlantAt'; x: number; y: number }
+  | { type: 'dragVessel'; handle: VesselHandle; dx: number; dy: number } // The selected vessel, by how far the handle moved so far
+  | { type: 'dropVessel' }
+  | { type: 'addVessel' }
+  | { type: 'removeVessel'; id: string }
+  | { type: 'reshapeVessel'; vessel: Vessel } // The selected vessel
+  | { type: 'clear' } // The outside only
+  | { type: 'growInstantly' }
+  | { type: 'selectPlant'; id: string | null }
+  | { type: 'editPlant'; id: string; settings: PlantSettings } // Regrows the bottle plant in place
+  | { type: 'deletePlant'; id: string }
+  | { type: 'duplicatePlant'; id: string }
+  | { type: 'transformPlant'; id: string; transform: Partial<PlantTransform> }
+  | { type: 'reorderPlant'; id: string; direction: 1 | -1 }; // 1 brings it forward
+
+export type GardenEvent =
+  | { type: 'history'; canUndo: boolean; canRedo: boolean } // Of the selected vessel, or of the garden when none is
+  | { type: 'vessels'; vessels: PlacedVessel[]; selectedId: string | null; dropTargetId: string | null }
+  | { type: 'environmentRestored'; environment: Environment }
+  | { type: 'copied'; settings: PlantSettings; seed: number; vessel?: Vessel } // Bottle plants come with their vessel
+  | { type: 'parentPicked'; plant: PlantSummary }
+  | { type: 'plantExported'; scene: SceneElement[] }
+  | { type: 'plantSelection'; plant: PlantSummary | null; vessel?: Vessel; transform?: PlantTransform; box: Rect | null } // Box is where it is drawn
+  | { type: 'hover'; box: Rect | null } // Where the plant a right-click would copy is drawn, if there is one under the pointer
+  | { type: 'reply'; callId: number; result: GardenCalls[keyof GardenCalls] };
+
+// Sent to a worker once, before any request, with the layers it renders to
+export interface GardenWorkerInit {
+  type: 'init';
+  outside: OffscreenCanvas;
+  inside: OffscreenCanvas;
+  size: GardenSize;
+  options: GardenOptions;
+}
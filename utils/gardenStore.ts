@@ -0,0 +1,184 @@
+// Saves the whole garden to IndexedDB so plants, their vessels and their environment survive page reloads,
+// together with the user's preset library
+
+import { Environment, PlacedVessel, PlantPreset, PlantSettings, PlantTransform, Vessel } from '../types';
+import { normalizeSettings } from './dna';
+import { normalizeEnvironment } from './environment';
+import { limitBranching } from './genes';
+import { validateVessel } from './vessel';
+
+export type GardenLayer = 'outside' | 'bottle';
+
+export interface StoredPlant {
+  id: string;
+  layer: GardenLayer;
+  order: number; // Planting order; regrowing in this order keeps overlaps the same
+  x: number; // Canvas coordinates outside, relative to its vessel's bottom center inside
+  y: number;
+  offsetX: number; // Drag offset of bottle plants from where they were planted
+  offsetY: number;
+  transform: PlantTransform; // How a bottle plant is drawn around its root
+  vesselId?: string; // The vessel holding a bottle plant; saves from before there were several vessels lack it
+  settings: PlantSettings;
+  seed: number;
+  age: number; // Growth ticks run so far
+  parents?: string[]; // Lineage of bred plants
+  gardenSize?: GardenExtent; // Lacking in saves from before plants kept their place in a resized garden
+}
+
+export interface StoredVessel extends PlacedVessel {
+  order: number; // Stacking order
+  gardenSize?: GardenExtent;
+}
+
+// The garden's size when it was saved, so a garden reopened at another size keeps its layout
+export interface GardenExtent {
+  width: number;
+  height: number;
+}
+
+// Settings saved before branching had a budget may fork past it; they are kept with a lower branch chance
+const readSettings = (settings: PlantSettings) => normalizeSettings(limitBranching(settings) as unknown as Record<string, unknown>);
+
+const DB_NAME = 'sketch-garden';
+const DB_VERSION = 5;
+const PLANTS_STORE = 'plants';
+// Single record under ENVIRONMENT_KEY (added in version 2)
+const ENVIRONMENT_STORE = 'environment';
+const ENVIRONMENT_KEY = 'current';
+// Likewise the single vessel of version 3, only read to carry it over
+const LEGACY_VESSEL_STORE = 'vessel';
+const LEGACY_VESSEL_KEY = 'current';
+// One record per vessel (added in version 4)
+const VESSELS_STORE = 'vessels';
+// The preset library, in the user's order, as a single record (added in version 5)
+const PRESETS_STORE = 'presets';
+const PRESETS_KEY = 'library';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        if (event.oldVersion < 1) request.result.createObjectStore(PLANTS_STORE, { keyPath: 'id' });
+        if (event.oldVersion < 2) request.result.createObjectStore(ENVIRONMENT_STORE);
+        if (event.oldVersion < 3) request.result.createObjectStore(LEGACY_VESSEL_STORE);
+        if (event.oldVersion < 4) request.result.createObjectStore(VESSELS_STORE, { keyPath: 'id' });
+        if (event.oldVersion < 5) request.result.createObjectStore(PRESETS_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+export const loadGarden = async (): Promise<StoredPlant[]> => {
+  const db = await openDb();
+  const records = await new Promise<StoredPlant[]>((resolve, reject) => {
+    const request = db.transaction(PLANTS_STORE, 'readonly').objectStore(PLANTS_STORE).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Records saved by an older build are brought up to date; anything unreadable is dropped
+  return records.flatMap(record => {
+    try {
+      return [{
+        offsetY: 0,
+        transform: { scale: 1, mirrored: false },
+        ...record,
+        settings: readSettings(record.settings)
+      }];
+    } catch {
+      return [];
+    }
+  }).sort((a, b) => a.order - b.order);
+};
+
+// Replaces the stored garden with the given plants and vessels in a single transaction
+export const saveGarden = async (plants: StoredPlant[], vessels: StoredVessel[]): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([PLANTS_STORE, VESSELS_STORE], 'readwrite');
+    const plantStore = tx.objectStore(PLANTS_STORE);
+    plantStore.clear();
+    plants.forEach(plant => plantStore.put(plant));
+    const vesselStore = tx.objectStore(VESSELS_STORE);
+    vesselStore.clear();
+    vessels.forEach(vessel => vesselStore.put(vessel));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const loadEnvironment = async (): Promise<Environment> => {
+  const db = await openDb();
+  const stored = await new Promise<Partial<Environment> | undefined>((resolve, reject) => {
+    const request = db.transaction(ENVIRONMENT_STORE, 'readonly').objectStore(ENVIRONMENT_STORE).get(ENVIRONMENT_KEY);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return normalizeEnvironment(stored);
+};
+
+export const saveEnvironment = async (environment: Environment): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ENVIRONMENT_STORE, 'readwrite');
+    tx.objectStore(ENVIRONMENT_STORE).put(environment, ENVIRONMENT_KEY);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const loadVessels = async (): Promise<StoredVessel[]> => {
+  const db = await openDb();
+  const records = await new Promise<StoredVessel[]>((resolve, reject) => {
+    const request = db.transaction(VESSELS_STORE, 'readonly').objectStore(VESSELS_STORE).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  const placed = (r: StoredVessel) => [r.x, r.y, r.width, r.height].every(n => typeof n === 'number' && Number.isFinite(n));
+  return records.filter(r => placed(r) && validateVessel(r.vessel).length === 0).sort((a, b) => a.order - b.order);
+};
+
+// The vessel saved before gardens could hold several, if any
+export const loadLegacyVessel = async (): Promise<Vessel | null> => {
+  const db = await openDb();
+  const stored = await new Promise<unknown>((resolve, reject) => {
+    const request = db.transaction(LEGACY_VESSEL_STORE, 'readonly').objectStore(LEGACY_VESSEL_STORE).get(LEGACY_VESSEL_KEY);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return validateVessel(stored).length === 0 ? stored as Vessel : null;
+};
+
+export const loadPresets = async (): Promise<PlantPreset[]> => {
+  const db = await openDb();
+  const stored = await new Promise<PlantPreset[] | undefined>((resolve, reject) => {
+    const request = db.transaction(PRESETS_STORE, 'readonly').objectStore(PRESETS_STORE).get(PRESETS_KEY);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Presets saved by an older build are brought up to date; anything unreadable is dropped
+  return (stored ?? []).flatMap(preset => {
+    try {
+      return [{ ...preset, settings: readSettings(preset.settings) }];
+    } catch {
+      return [];
+    }
+  });
+};
+
+export const savePresets = async (presets: PlantPreset[]): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PRESETS_STORE, 'readwrite');
+    tx.objectStore(PRESETS_STORE).put(presets, PRESETS_KEY);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
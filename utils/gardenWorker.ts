@@ -0,0 +1,21 @@
+// Worker entry point: runs the garden engine off the main thread, rendering to the OffscreenCanvas layers it is handed
+
+import { GardenEngine } from './gardenEngine';
+import { GardenEvent, GardenRequest, GardenWorkerInit } from './gardenProtocol';
+
+// The parts of the dedicated worker scope used here (the project is type-checked against the DOM library only)
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<GardenWorkerInit | GardenRequest>) => void) | null;
+  postMessage: (event: GardenEvent) => void;
+}
+
+const scope = self as unknown as WorkerScope;
+let engine: GardenEngine | null = null;
+
+scope.onmessage = ({ data }) => {
+  if (data.type === 'init') {
+    engine = new GardenEngine(data.outside, data.inside, data.size, data.options, event => scope.postMessage(event));
+  } else {
+    engine?.handle(data);
+  }
+};
@@ -0,0 +1,147 @@
+// Schema of every PlantSettings gene: its valid range, its sidebar group and the DNA version that introduced it
+
+import { hasSpecies } from '../species';
+import { hasBalancedBrackets, parseRules } from './lsystem';
+import { CROWN_SHAPES, isCrownShape } from './crown';
+import { PlantSettings } from '../types';
+
+export type GeneGroup = 'stem' | 'foliage' | 'bloom' | 'grammar' | 'crown' | 'branching';
+export type GeneKind = 'color' | 'number' | 'integer' | 'text';
+
+export interface GeneSpec {
+  key: Exclude<keyof PlantSettings, 'type'>;
+  label: string;
+  kind: GeneKind;
+  group: GeneGroup;
+  min?: number;
+  max?: number; // For text genes, the longest allowed length
+  check?: (value: string) => string | null; // Extra validation of text genes
+  since: number; // First DNA version that carries this gene
+}
+
+// Order matters: the binary DNA format writes genes in this order, so new genes are only ever appended
+export const GENES: GeneSpec[] = [
+  { key: 'stemColorStart', label: 'Stem gradient start', kind: 'color', group: 'stem', since: 2 },
+  { key: 'stemColorEnd', label: 'Stem gradient end', kind: 'color', group: 'stem', since: 2 },
+  { key: 'baseWidth', label: 'Thickness', kind: 'number', group: 'stem', min: 0.5, max: 30, since: 2 },
+  { key: 'growthSpeed', label: 'Growth speed', kind: 'number', group: 'stem', min: 0.5, max: 10, since: 2 },
+  { key: 'maxLife', label: 'Height', kind: 'number', group: 'stem', min: 10, max: 1000, since: 2 },
+  { key: 'curlFactor', label: 'Curviness', kind: 'number', group: 'stem', min: 0, max: 1, since: 2 },
+  { key: 'straightness', label: 'Straightness', kind: 'number', group: 'stem', min: 0, max: 1, since: 2 },
+
+  { key: 'leafColorStart', label: 'Leaf gradient start', kind: 'color', group: 'foliage', since: 2 },
+  { key: 'leafColorEnd', label: 'Leaf gradient end', kind: 'color', group: 'foliage', since: 2 },
+  { key: 'leafFrequency', label: 'Leaf density', kind: 'number', group: 'foliage', min: 0, max: 1, since: 2 },
+  { key: 'leafSize', label: 'Leaf size', kind: 'number', group: 'foliage', min: 0, max: 100, since: 2 },
+
+  { key: 'flowerColorStart', label: 'Petal/fruit color start', kind: 'color', group: 'bloom', since: 2 },
+  { key: 'flowerColorEnd', label: 'Petal/fruit color end', kind: 'color', group: 'bloom', since: 2 },
+  { key: 'flowerProbability', label: 'Bloom probability', kind: 'number', group: 'bloom', min: 0, max: 1, since: 2 },
+  { key: 'flowerSize', label: 'Bloom size', kind: 'number', group: 'bloom', min: 0, max: 100, since: 2 },
+  { key: 'petalCount', label: 'Petal count', kind: 'integer', group: 'bloom', min: 1, max: 64, since: 2 },
+
+  { key: 'lsystemAxiom', label: 'L-system axiom', kind: 'text', group: 'grammar', max: 64, since: 3,
+    check: value => hasBalancedBrackets(value) ? null : 'L-system axiom has unbalanced brackets.' },
+  { key: 'lsystemRules', label: 'L-system rules', kind: 'text', group: 'grammar', max: 512, since: 3,
+    check: value => parseRules(value).problems.join(' ') || null },
+  { key: 'lsystemIterations', label: 'L-system iterations', kind: 'integer', group: 'grammar', min: 0, max: 8, since: 3 },
+  { key: 'lsystemAngle', label: 'L-system angle', kind: 'number', group: 'grammar', min: 0, max: 180, since: 3 },
+
+  { key: 'crownShape', label: 'Crown shape', kind: 'text', group: 'crown', max: 16, since: 4,
+    check: value => isCrownShape(value) ? null : `Crown shape must be one of ${CROWN_SHAPES.join(', ')} (got "${value}").` },
+  { key: 'attractorDensity', label: 'Attractor density', kind: 'number', group: 'crown', min: 0.5, max: 40, since: 4 },
+  { key: 'killDistance', label: 'Kill distance', kind: 'number', group: 'crown', min: 2, max: 100, since: 4 },
+  { key: 'segmentLength', label: 'Segment length', kind: 'number', group: 'crown', min: 1, max: 30, since: 4 },
+
+  { key: 'branchChance', label: 'Branch chance', kind: 'number', group: 'branching', min: 0, max: 0.2, since: 6 },
+  { key: 'branchAngleOffset', label: 'Branch angle', kind: 'number', group: 'branching', min: 0, max: Math.PI, since: 6 },
+  { key: 'branchGenerations', label: 'Branch generations', kind: 'integer', group: 'branching', min: 0, max: 5, since: 6 },
+  { key: 'branchShortening', label: 'Branch shortening', kind: 'number', group: 'branching', min: 0, max: 4, since: 6 },
+  { key: 'branchThinning', label: 'Branch thinning', kind: 'number', group: 'branching', min: 0, max: 4, since: 6 },
+  { key: 'linger', label: 'Linger', kind: 'integer', group: 'branching', min: 1, max: 500, since: 6 },
+  { key: 'noiseScale', label: 'Noise scale', kind: 'number', group: 'branching', min: 0.001, max: 0.2, since: 6 },
+  { key: 'noiseDrift', label: 'Noise drift', kind: 'number', group: 'branching', min: 0, max: 0.5, since: 6 },
+];
+
+// Wandering stems fork, and their forks fork again; beyond this many stems on average a plant takes too long to grow
+export const MAX_EXPECTED_STEMS = 400;
+
+// Stems a plant grows on average: each lives maxLife / (1 + generation * branchShortening) ticks
+// and forks with branchChance on each of them, down to branchGenerations
+export const expectedStems = ({ maxLife, branchChance, branchGenerations, branchShortening }: Pick<PlantSettings, 'maxLife' | 'branchChance' | 'branchGenerations' | 'branchShortening'>) => {
+  let total = 1;
+  let generation = 1;
+  for (let g = 0; g < branchGenerations; g++) {
+    generation *= branchChance * maxLife / (1 + g * branchShortening);
+    total += generation;
+  }
+  return total;
+};
+
+// Lowers the branch chance of settings that would fork past MAX_EXPECTED_STEMS, e.g. after breeding
+export const limitBranching = (settings: PlantSettings): PlantSettings => {
+  let branchChance = settings.branchChance;
+  while (branchChance > 0 && expectedStems({ ...settings, branchChance }) > MAX_EXPECTED_STEMS) branchChance *= 0.9;
+  return branchChance === settings.branchChance ? settings : { ...settings, branchChance };
+};
+
+// Why settings would branch too much to grow, or null
+export const branchingProblem = (settings: PlantSettings): string | null => {
+  const stems = expectedStems(settings);
+  return stems > MAX_EXPECTED_STEMS
+    ? `Branching would grow about ${Math.round(stems)} stems; at most ${MAX_EXPECTED_STEMS} are allowed. Lower the branch chance, generations or height, or raise the shortening.`
+    : null;
+};
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+export const isHexColor = (value: unknown): value is string =>
+  typeof value === 'string' && HEX_COLOR.test(value);
+
+// Returns one readable message per invalid gene; an empty list means the settings are safe to grow
+export const validateSettings = (candidate: Record<string, unknown>): string[] => {
+  const errors: string[] = [];
+
+  if (!hasSpecies(candidate.type)) {
+    errors.push(`Unknown plant species "${String(candidate.type)}".`);
+  }
+
+  for (const gene of GENES) {
+    const value = candidate[gene.key];
+    if (gene.kind === 'color') {
+      if (!isHexColor(value)) {
+        errors.push(`${gene.label} must be a hex color like #a3e635 (got ${JSON.stringify(value)}).`);
+      }
+      continue;
+    }
+    if (gene.kind === 'text') {
+      if (typeof value !== 'string') {
+        errors.push(`${gene.label} must be text (got ${JSON.stringify(value)}).`);
+      } else if (gene.max !== undefined && value.length > gene.max) {
+        errors.push(`${gene.label} must be at most ${gene.max} characters (got ${value.length}).`);
+      } else {
+        const problem = gene.check?.(value);
+        if (problem) errors.push(problem);
+      }
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${gene.label} must be a number (got ${JSON.stringify(value)}).`);
+      continue;
+    }
+    if (gene.kind === 'integer' && !Number.isInteger(value)) {
+      errors.push(`${gene.label} must be a whole number (got ${value}).`);
+    }
+    if ((gene.min !== undefined && value < gene.min) || (gene.max !== undefined && value > gene.max)) {
+      errors.push(`${gene.label} must be between ${gene.min} and ${gene.max} (got ${value}).`);
+    }
+  }
+
+  // Each gene may be in range and still fork without end together with the others
+  if (errors.length === 0) {
+    const problem = branchingProblem(candidate as unknown as PlantSettings);
+    if (problem) errors.push(problem);
+  }
+
+  return errors;
+};
@@ -0,0 +1,143 @@
+// Grower simulation shared by every plant: stepping stems and spawning branches, leaves and blooms into the plant's scene
+
+import { Perlin } from './noise';
+import { createRandom, Random, uuid } from './random';
+import { lerpColor } from './color';
+import { getSpecies } from '../species';
+import { applyEnvironment, Surroundings } from './environment';
+import { avoidWalls, stopAtWalls } from './containment';
+import { Grower, PlantSettings, Rect, SceneElement } from '../types';
+
+// Hard limits per plant, whatever its genes: forks of forks multiply, and validation only bounds the expected count
+const MAX_GROWERS = 600;
+const MAX_SCENE_ELEMENTS = 100000;
+
+export const createGrower = (x: number, y: number, plantSettings: PlantSettings, scene: SceneElement[], random: Random, noise: Perlin, generation = 0, initialAngle?: number): Grower => {
+  const baseAngle = -Math.PI / 2;
+  const startAngle = initialAngle ?? (baseAngle + (random() * 0.2 - 0.1));
+
+  return {
+    id: uuid(),
+    x,
+    y,
+    angle: startAngle,
+    life: 0,
+    maxLife: plantSettings.maxLife / (1 + generation * plantSettings.branchShortening),
+    width: plantSettings.baseWidth / (1 + generation * plantSettings.branchThinning),
+    speed: plantSettings.growthSpeed,
+    color: plantSettings.stemColorStart,
+    settings: plantSettings,
+    noiseOffset: random() * 1000,
+    generation,
+    scene,
+    random,
+    noise
+  };
+};
+
+// The first growers of a new plant, rooted at 0,0: a single stem unless the species sows its own.
+// `space` is the room the plant may fill, in plant-local coordinates; only species that sow their own growers use it.
+export const sowPlant = (settings: PlantSettings, scene: SceneElement[], random: Random, noise: Perlin, space?: Rect): Grower[] =>
+  getSpecies(settings.type).sow?.(settings, scene, random, noise, space) ?? [createGrower(0, 0, settings, scene, random, noise)];
+
+// Advances every grower of one plant by a single tick, appending new geometry to the plant's scene.
+// Returns the growers still alive, including any branches spawned during this tick.
+export const stepGrowers = (growers: Grower[], surroundings?: Surroundings): Grower[] => {
+  // A plant that has painted this much is finished; every grower of a plant shares its scene
+  if (growers.length > 0 && growers[0].scene.length >= MAX_SCENE_ELEMENTS) return [];
+  const spawned: Grower[] = [];
+
+  growers.forEach((grower) => {
+    const { settings, life, maxLife, scene, random, noise } = grower;
+    const species = getSpecies(settings.type);
+    if (species.grow) {
+      species.grow(grower);
+      return;
+    }
+
+    if (life >= maxLife || grower.width < 0.1) {
+      if (!grower.hasAttemptedFlower) {
+          // The deepest forks stay bare, unless the plant never forks at all
+          const deepest = grower.generation > 0 && grower.generation >= settings.branchGenerations;
+          if (!deepest && random() < settings.flowerProbability) {
+              scene.push({
+                  kind: 'bloom',
+                  x: grower.x,
+                  y: grower.y,
+                  size: settings.flowerSize * (0.85 + random() * 0.3),
+                  startColor: settings.flowerColorStart,
+                  endColor: settings.flowerColorEnd,
+                  petals: settings.petalCount,
+                  type: settings.type,
+                  seed: Math.floor(random() * 4294967296)
+              });
+          }
+          grower.hasAttemptedFlower = true;
+      }
+      grower.life++; // Increment so it eventually gets filtered out
+      return;
+    }
+
+    const progress = life / maxLife;
+    species.steer(grower, progress);
+    if (surroundings) applyEnvironment(grower, progress, surroundings);
+    if (surroundings?.walls) avoidWalls(grower, surroundings.walls);
+
+    let nextX = grower.x + Math.cos(grower.angle) * grower.speed;
+    let nextY = grower.y + Math.sin(grower.angle) * grower.speed;
+    // A stem that reaches the glass ends there, flowering on its next tick like any other finished stem
+    let stopped = false;
+    if (surroundings?.walls) ({ x: nextX, y: nextY, stopped } = stopAtWalls(surroundings.walls, grower, nextX, nextY));
+
+    const stemColor = lerpColor(settings.stemColorStart, settings.stemColorEnd, progress);
+
+    const currentWidth = grower.width * (1 - progress);
+    scene.push({
+      kind: 'segment',
+      growerId: grower.id,
+      x1: grower.x,
+      y1: grower.y,
+      x2: nextX,
+      y2: nextY,
+      width: Math.max(0.5, currentWidth),
+      color: stemColor
+    });
+
+    if (random() < settings.leafFrequency) {
+      const leafAngle = grower.angle + species.leafAngle(grower);
+      const leafColor = lerpColor(settings.leafColorStart, settings.leafColorEnd, progress);
+      scene.push({
+        kind: 'leaf',
+        x: grower.x,
+        y: grower.y,
+        angle: leafAngle,
+        size: settings.leafSize * (0.8 + random() * 0.4),
+        color: leafColor,
+        type: settings.type
+      });
+    }
+
+    if (grower.generation < settings.branchGenerations && random() < settings.branchChance && growers.length + spawned.length < MAX_GROWERS) {
+       const branchAngle = grower.angle + (random() > 0.5 ? settings.branchAngleOffset : -settings.branchAngleOffset);
+       spawned.push(createGrower(grower.x, grower.y, settings, scene, random, noise, grower.generation + 1, branchAngle));
+    }
+
+    grower.x = nextX;
+    grower.y = nextY;
+    grower.life = stopped ? maxLife : grower.life + 1;
+  });
+
+  // Remove dead growers, once they have lingered to finish animations if needed
+  return [...growers, ...spawned].filter(g => g.life < g.maxLife + g.settings.linger);
+};
+
+// Guards one-shot growth against genes that would keep a plant growing for a very long time
+const MAX_TICKS = 5000;
+
+// Grows a plant from its seed in one go, for previews and thumbnails, and returns its scene
+export const growScene = (settings: PlantSettings, seed: number, ticks = MAX_TICKS, space?: Rect): SceneElement[] => {
+  const scene: SceneElement[] = [];
+  let growers = sowPlant(settings, scene, createRandom(seed), new Perlin(seed), space);
+  for (let age = 0; age < ticks && growers.length > 0; age++) growers = stepGrowers(growers);
+  return scene;
+};
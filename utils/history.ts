@@ -0,0 +1,48 @@
+// Unlimited linear undo/redo. Each command knows how to revert and re-apply itself;
+// recording a new command discards anything that was undone.
+
+export interface Command {
+  label: string; // Shown to the user, e.g. "Undid: Plant in vessel"
+  undo: () => void;
+  redo: () => void;
+}
+
+export class CommandHistory {
+  private done: Command[] = [];
+  private undone: Command[] = [];
+
+  // Records a command whose effect has already been applied
+  record(command: Command) {
+    this.done.push(command);
+    this.undone = [];
+  }
+
+  undo(): Command | null {
+    const command = this.done.pop();
+    if (!command) return null;
+    command.undo();
+    this.undone.push(command);
+    return command;
+  }
+
+  redo(): Command | null {
+    const command = this.undone.pop();
+    if (!command) return null;
+    command.redo();
+    this.done.push(command);
+    return command;
+  }
+
+  // The most recent command still in effect, e.g. to fold a run of slider edits into one step
+  get latest(): Command | null {
+    return this.done[this.done.length - 1] ?? null;
+  }
+
+  get canUndo() {
+    return this.done.length > 0;
+  }
+
+  get canRedo() {
+    return this.undone.length > 0;
+  }
+}
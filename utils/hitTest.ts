@@ -0,0 +1,55 @@
+// Tells whether a plant is actually painted under a point, by repainting just the scene elements near it
+// into a tiny canvas and reading back its alpha
+
+import { drawFlower, drawLeaf, drawSegment, elementBounds, PaintContext } from './render';
+import { containsPoint, padRect } from './rect';
+import { SceneElement } from '../types';
+
+type HitCanvas = HTMLCanvasElement | OffscreenCanvas;
+type HitContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Below this alpha a pixel is only shadow or antialiasing
+const MIN_ALPHA = 64;
+
+export class SceneHitTester {
+  private canvas: HitCanvas;
+  private ctx: HitContext | null;
+  private margin: number;
+
+  // `canvas` is scratch space; a click within `margin` pixels of the drawing still counts
+  constructor(canvas: HitCanvas, margin: number) {
+    const size = margin * 2 + 1;
+    canvas.width = size;
+    canvas.height = size;
+    this.canvas = canvas;
+    this.ctx = canvas.getContext('2d', { willReadFrequently: true }) as HitContext | null;
+    this.margin = margin;
+  }
+
+  // (x, y) is in the scene's plant-local coordinates, which are drawn `scale` times their size
+  hits(scene: SceneElement[], x: number, y: number, scale = 1): boolean {
+    const reach = this.margin / scale;
+    const near = scene.filter(element => containsPoint(padRect(elementBounds(element), reach), x, y));
+    if (near.length === 0) return false;
+    const ctx = this.ctx;
+    // Without a canvas to read back, being near the drawing has to do
+    if (!ctx) return true;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    ctx.translate(this.margin, this.margin);
+    ctx.scale(scale, scale);
+    ctx.translate(-x, -y);
+    for (const element of near) {
+      if (element.kind === 'segment') drawSegment(ctx as PaintContext, element);
+      else if (element.kind === 'leaf') drawLeaf(ctx as PaintContext, element);
+      else drawFlower(ctx as PaintContext, element);
+    }
+
+    const { data } = ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] >= MIN_ALPHA) return true;
+    }
+    return false;
+  }
+}
@@ -0,0 +1,53 @@
+// L-system grammar: parsing production rules and rewriting an axiom with them
+
+import { Random } from './random';
+
+// Rewriting stops before the string grows past this many symbols, whatever the iteration count
+export const MAX_SYMBOLS = 50000;
+
+// Several productions for the same symbol make the grammar stochastic; one is picked per rewrite
+export type Productions = Map<string, string[]>;
+
+export const hasBalancedBrackets = (text: string) => {
+  let depth = 0;
+  for (const ch of text) {
+    if (ch === '[') depth++;
+    else if (ch === ']' && --depth < 0) return false;
+  }
+  return depth === 0;
+};
+
+// Rules read "F=FF-[-F+F]" and are separated by semicolons or new lines; whitespace is ignored.
+// Malformed rules are skipped and reported, so a half-typed rule never stops a plant from growing.
+export const parseRules = (text: string): { productions: Productions; problems: string[] } => {
+  const productions: Productions = new Map();
+  const problems: string[] = [];
+  text.split(/[;\n]/).map(rule => rule.replace(/\s+/g, '')).filter(Boolean).forEach(rule => {
+    const match = /^([^=])=([^=]*)$/.exec(rule);
+    if (!match) {
+      problems.push(`Rule "${rule}" should look like F=F[+F]F.`);
+      return;
+    }
+    if (!hasBalancedBrackets(match[2])) {
+      problems.push(`Rule "${rule}" has unbalanced brackets.`);
+      return;
+    }
+    productions.set(match[1], [...(productions.get(match[1]) ?? []), match[2]]);
+  });
+  return { productions, problems };
+};
+
+export const expand = (axiom: string, productions: Productions, iterations: number, random: Random) => {
+  let current = axiom;
+  for (let i = 0; i < iterations; i++) {
+    let next = '';
+    for (const ch of current) {
+      const options = productions.get(ch);
+      if (!options) next += ch;
+      else next += options.length === 1 ? options[0] : options[Math.floor(random() * options.length)];
+      if (next.length > MAX_SYMBOLS) return current;
+    }
+    current = next;
+  }
+  return current;
+};
@@ -1,10 +1,13 @@
 // A compact implementation of Perlin Noise to drive organic movement
 
+import { createRandom } from './random';
+
 export class Perlin {
   private permutation: number[];
   private p: number[];
 
-  constructor() {
+  // Without a seed the classic reference permutation is used; with one it is shuffled deterministically
+  constructor(seed?: number) {
     this.permutation = [151,160,137,91,90,15,
       131,13,201,95,96,53,194,233,7,225,140,36,103,30,69,142,8,99,37,240,21,10,23,
       190,6,148,247,120,234,75,0,26,197,62,94,252,219,203,117,35,11,32,57,177,33,
@@ -19,6 +22,13 @@ export class Perlin {
       49,192,214,31,181,199,106,157,184,84,204,176,115,121,50,45,127,4,150,254,
       138,236,205,93,222,114,67,29,24,72,243,141,128,195,78,66,215,61,156,180
     ];
+    if (seed !== undefined) {
+      const random = createRandom(seed);
+      for (let i = this.permutation.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [this.permutation[i], this.permutation[j]] = [this.permutation[j], this.permutation[i]];
+      }
+    }
     this.p = new Array(512);
     for (let i = 0; i < 256; i++) {
       this.p[256 + i] = this.p[i] = this.permutation[i];
@@ -69,6 +79,4 @@ export class Perlin {
         this.lerp(u, this.grad(this.p[AB + 1], x, y - 1, z - 1),
           this.grad(this.p[BB + 1], x - 1, y - 1, z - 1))));
   }
-}
-
-export const noiseGenerator = new Perlin();
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,271 @@
+// Closed outlines as polygons: flattened from an SVG path so hit-testing, clamping and containment
+// can work on the same shape that is drawn.
+
+import { Point } from '../types';
+
+// Straight pieces per curve, and the largest turn of an arc per piece
+const CURVE_STEPS = 16;
+const ARC_STEP = Math.PI / 18;
+
+export class PathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PathError';
+  }
+}
+
+// How many numbers each command takes per repetition
+const ARITY: Record<string, number> = { M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0 };
+
+const tokenize = (d: string) => {
+  const tokens = d.match(/[a-zA-Z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? [];
+  const leftover = d.replace(/[a-zA-Z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?|[\s,]/g, '');
+  if (leftover) throw new PathError(`Path contains "${leftover[0]}", which is not part of SVG path syntax.`);
+  return tokens;
+};
+
+// Points along an elliptical arc, following the SVG endpoint parameterization (SVG 1.1, F.6.5)
+const arcPoints = (from: Point, rx: number, ry: number, rotation: number, largeArc: boolean, sweep: boolean, to: Point): Point[] => {
+  if (rx === 0 || ry === 0) return [to];
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+  // Radii too small to reach the endpoint are scaled up until they just do
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cx1 = (factor * rx * y1) / ry;
+  const cy1 = (-factor * ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && delta > 0) delta -= Math.PI * 2;
+  if (sweep && delta < 0) delta += Math.PI * 2;
+
+  const steps = Math.max(1, Math.ceil(Math.abs(delta) / ARC_STEP));
+  const points: Point[] = [];
+  for (let i = 1; i <= steps; i++) {
+    const t = start + (delta * i) / steps;
+    const ex = rx * Math.cos(t);
+    const ey = ry * Math.sin(t);
+    points.push({ x: cos * ex - sin * ey + cx, y: sin * ex + cos * ey + cy });
+  }
+  points[points.length - 1] = to;
+  return points;
+};
+
+const bezierPoints = (p0: Point, p1: Point, p2: Point, p3: Point): Point[] =>
+  Array.from({ length: CURVE_STEPS }, (_, i) => {
+    const t = (i + 1) / CURVE_STEPS;
+    const u = 1 - t;
+    return {
+      x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+      y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+    };
+  });
+
+const quadraticPoints = (p0: Point, p1: Point, p2: Point): Point[] =>
+  Array.from({ length: CURVE_STEPS }, (_, i) => {
+    const t = (i + 1) / CURVE_STEPS;
+    const u = 1 - t;
+    return { x: u * u * p0.x + 2 * u * t * p1.x + t * t * p2.x, y: u * u * p0.y + 2 * u * t * p1.y + t * t * p2.y };
+  });
+
+// Flattens a path describing one closed shape into a polygon. Throws a PathError whose message can be shown as-is.
+export const flattenPath = (d: string): Point[] => {
+  const tokens = tokenize(d);
+  if (tokens.length === 0 || !/^[mM]$/.test(tokens[0])) throw new PathError('Path must start with a move (M) command.');
+
+  const points: Point[] = [];
+  let current: Point = { x: 0, y: 0 };
+  // Last control point, reflected by a following S (after C or S) or T (after Q or T)
+  let control: { point: Point; cubic: boolean } | null = null;
+  let command = '';
+  let index = 0;
+  let closed = false;
+
+  while (index < tokens.length) {
+    if (/^[a-zA-Z]$/.test(tokens[index])) {
+      command = tokens[index++];
+    } else if (command === 'M' || command === 'm') {
+      // Numbers after a move continue as lines
+      command = command === 'M' ? 'L' : 'l';
+    } else if (command === 'Z' || command === 'z') {
+      throw new PathError(`Path has a stray number "${tokens[index]}" after closing (Z).`);
+    }
+    const upper = command.toUpperCase();
+    if (!(upper in ARITY)) throw new PathError(`Path command "${command}" is not supported.`);
+    if (closed && upper !== 'Z') throw new PathError('Path must describe a single closed shape; it continues after closing (Z).');
+
+    const count = ARITY[upper];
+    const args = tokens.slice(index, index + count).map(Number);
+    if (args.length < count || args.some(n => Number.isNaN(n))) {
+      throw new PathError(`Path command "${command}" needs ${count} numbers.`);
+    }
+    index += count;
+
+    const relative = command !== upper;
+    const at = (x: number, y: number): Point => relative ? { x: current.x + x, y: current.y + y } : { x, y };
+    let next: Point = current;
+    let nextControl: typeof control = null;
+    const reflected = (cubic: boolean) => control && control.cubic === cubic
+      ? { x: 2 * current.x - control.point.x, y: 2 * current.y - control.point.y }
+      : current;
+
+    switch (upper) {
+      case 'M':
+        if (points.length > 0) throw new PathError('Path must describe a single closed shape; it has more than one move (M).');
+        next = at(args[0], args[1]);
+        points.push(next);
+        break;
+      case 'L':
+        next = at(args[0], args[1]);
+        points.push(next);
+        break;
+      case 'H':
+        next = { x: relative ? current.x + args[0] : args[0], y: current.y };
+        points.push(next);
+        break;
+      case 'V':
+        next = { x: current.x, y: relative ? current.y + args[0] : args[0] };
+        points.push(next);
+        break;
+      case 'C':
+      case 'S': {
+        const c1 = upper === 'C' ? at(args[0], args[1]) : reflected(true);
+        const c2 = upper === 'C' ? at(args[2], args[3]) : at(args[0], args[1]);
+        next = upper === 'C' ? at(args[4], args[5]) : at(args[2], args[3]);
+        points.push(...bezierPoints(current, c1, c2, next));
+        nextControl = { point: c2, cubic: true };
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const c = upper === 'Q' ? at(args[0], args[1]) : reflected(false);
+        next = upper === 'Q' ? at(args[2], args[3]) : at(args[0], args[1]);
+        points.push(...quadraticPoints(current, c, next));
+        nextControl = { point: c, cubic: false };
+        break;
+      }
+      case 'A':
+        next = at(args[5], args[6]);
+        points.push(...arcPoints(current, args[0], args[1], args[2], args[3] !== 0, args[4] !== 0, next));
+        break;
+      case 'Z':
+        closed = true;
+        next = points[0];
+        break;
+    }
+    control = nextControl;
+    current = next;
+  }
+
+  // The closing edge is implied; a repeated first point would only add a zero-length edge
+  const last = points[points.length - 1];
+  if (points.length > 1 && last.x === points[0].x && last.y === points[0].y) points.pop();
+  if (points.length < 3) throw new PathError('Path must enclose an area; it has fewer than three corners.');
+  return points;
+};
+
+// Even-odd rule, like canvas and SVG fills
+export const insideOutline = (outline: Point[], x: number, y: number) => {
+  let inside = false;
+  for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+    const a = outline[i];
+    const b = outline[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+const closestOnEdge = (a: Point, b: Point, x: number, y: number) => {
+  const abx = b.x - a.x;
+  const aby = b.y - a.y;
+  const length = abx * abx + aby * aby;
+  const t = length === 0 ? 0 : Math.max(0, Math.min(1, ((x - a.x) * abx + (y - a.y) * aby) / length));
+  const px = a.x + abx * t;
+  const py = a.y + aby * t;
+  return { x: px, y: py, distance: Math.hypot(x - px, y - py) };
+};
+
+// The point of the outline closest to (x, y), and how far away it is
+export const nearestOnOutline = (outline: Point[], x: number, y: number) => {
+  let best = { x: outline[0].x, y: outline[0].y, distance: Infinity };
+  for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+    const point = closestOnEdge(outline[j], outline[i], x, y);
+    if (point.distance < best.distance) best = point;
+  }
+  return best;
+};
+
+// For every edge that comes within `within` of (x, y), its point closest to (x, y)
+export const edgesNear = (outline: Point[], x: number, y: number, within: number) => {
+  const near: { x: number; y: number; distance: number }[] = [];
+  for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+    const a = outline[j];
+    const b = outline[i];
+    // Cheap rejection by the edge's bounding box
+    if (x < Math.min(a.x, b.x) - within || x > Math.max(a.x, b.x) + within ||
+        y < Math.min(a.y, b.y) - within || y > Math.max(a.y, b.y) + within) continue;
+    const point = closestOnEdge(a, b, x, y);
+    if (point.distance <= within) near.push(point);
+  }
+  return near;
+};
+
+// The stretch of the inside that a horizontal line at `y` crosses around `x` (or the widest one), as [left, right]
+export const spanAt = (outline: Point[], y: number, x: number): [number, number] | null => {
+  const crossings: number[] = [];
+  for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+    const a = outline[i];
+    const b = outline[j];
+    if ((a.y > y) !== (b.y > y)) crossings.push(((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x);
+  }
+  crossings.sort((m, n) => m - n);
+  let widest: [number, number] | null = null;
+  for (let i = 0; i + 1 < crossings.length; i += 2) {
+    const span: [number, number] = [crossings[i], crossings[i + 1]];
+    if (x >= span[0] && x <= span[1]) return span;
+    if (!widest || span[1] - span[0] > widest[1] - widest[0]) widest = span;
+  }
+  return widest;
+};
+
+// The lowest point of the outline on the vertical line at `x`, or null if the line misses it
+export const floorAt = (outline: Point[], x: number): number | null => {
+  let floor: number | null = null;
+  for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+    const a = outline[i];
+    const b = outline[j];
+    if ((a.x > x) !== (b.x > x)) {
+      const y = ((b.y - a.y) * (x - a.x)) / (b.x - a.x) + a.y;
+      if (floor === null || y > floor) floor = y;
+    }
+  }
+  return floor;
+};
+
+export const outlineBounds = (outline: Point[]) => {
+  const xs = outline.map(p => p.x);
+  const ys = outline.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+export const translateOutline = (outline: Point[], dx: number, dy: number): Point[] =>
+  outline.map(p => ({ x: p.x + dx, y: p.y + dy }));
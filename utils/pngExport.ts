@@ -0,0 +1,53 @@
+// Raster export: redraws the garden from its plant scenes at any resolution, independent of the screen
+
+import { drawBottleGlass, renderScene, traceOutline } from './render';
+import { placeOutline } from './vessel';
+import { GardenSnapshot, PngExportSize } from '../types';
+
+// Browsers refuse (or silently blank) canvases beyond roughly these limits
+const MAX_SIDE = 16384;
+const MAX_PIXELS = 16384 * 8192;
+
+// Scale factor for a requested export size, reduced if needed to stay within canvas limits
+export const resolveExportScale = (width: number, height: number, size: PngExportSize) => {
+  const requested = 'width' in size ? size.width / width : size.scale;
+  const limit = Math.min(MAX_SIDE / width, MAX_SIDE / height, Math.sqrt(MAX_PIXELS / (width * height)));
+  return Math.max(0.01, Math.min(requested, limit));
+};
+
+export const gardenToPng = (snapshot: GardenSnapshot, size: PngExportSize): Promise<Blob> => {
+  const { width, height, background, outside, vessels } = snapshot;
+  const scale = resolveExportScale(width, height, size);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas 2D is not available'));
+
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+  outside.forEach(p => renderScene(ctx, p.scene, p.x, p.y));
+  vessels.forEach(placed => {
+    // Vessel contents are clipped at the glass, as on screen
+    ctx.save();
+    traceOutline(ctx, placeOutline(placed.vessel, placed));
+    ctx.clip();
+    placed.plants.forEach(p => {
+      // Scaled and mirrored around the root, as on screen
+      const { scale, mirrored } = p.transform ?? { scale: 1, mirrored: false };
+      ctx.save();
+      ctx.translate(p.x, p.y);
+      ctx.scale(mirrored ? -scale : scale, scale);
+      renderScene(ctx, p.scene, 0, 0);
+      ctx.restore();
+    });
+    ctx.restore();
+    drawBottleGlass(ctx, placed, placed.vessel);
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+  });
+};
@@ -0,0 +1,78 @@
+// The user's preset library as a file. Each preset travels as a name plus DNA, so files are checked and migrated
+// like pasted DNA; thumbnails are not included and are regrown on import.
+
+import { PlantPreset } from '../types';
+import { getSpecies } from '../species';
+import { decodeDna, encodeDna, DnaError } from './dna';
+import { uuid } from './random';
+
+const FILE_FORMAT = 'sketch-garden-presets';
+const FILE_VERSION = 1;
+const MAX_NAME_LENGTH = 40;
+
+interface PresetFile {
+  format: typeof FILE_FORMAT;
+  version: number;
+  presets: { name: string; dna: string }[];
+}
+
+export const trimPresetName = (name: string) => name.trim().slice(0, MAX_NAME_LENGTH);
+
+export const presetsToJson = (presets: PlantPreset[]): string => {
+  const file: PresetFile = {
+    format: FILE_FORMAT,
+    version: FILE_VERSION,
+    presets: presets.map(({ name, settings, seed }) => ({ name, dna: encodeDna({ settings, seed }) }))
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const toPreset = (name: string, dna: string): PlantPreset => {
+  const { settings, seed } = decodeDna(dna);
+  return { id: uuid(), name: trimPresetName(name) || getSpecies(settings.type).label, settings, seed };
+};
+
+// Reads an exported library, or a plain text file with one DNA string per line, each optionally after a name
+// ("Fern: GG6-…"). Presets that cannot be read are reported by line or position and the rest are kept.
+export const parsePresetFile = (text: string): { presets: PlantPreset[]; problems: string[] } => {
+  const presets: PlantPreset[] = [];
+  const problems: string[] = [];
+  const add = (where: string, name: string, dna: unknown) => {
+    try {
+      if (typeof dna !== 'string') throw new DnaError('It has no DNA.');
+      presets.push(toPreset(name, dna));
+    } catch (e) {
+      if (!(e instanceof DnaError)) throw e;
+      problems.push(`${where}: ${e.message}`);
+    }
+  };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    parsed = undefined;
+  }
+
+  if (parsed !== undefined) {
+    const file = parsed as Partial<PresetFile> | null;
+    if (!file || file.format !== FILE_FORMAT || !Array.isArray(file.presets)) {
+      return { presets, problems: ['This file is not a preset library.'] };
+    }
+    if (typeof file.version !== 'number' || file.version > FILE_VERSION) {
+      return { presets, problems: [`This library comes from a newer garden (version ${file.version}).`] };
+    }
+    file.presets.forEach((entry, i) => add(`Preset ${i + 1}`, typeof entry?.name === 'string' ? entry.name : '', entry?.dna));
+    return { presets, problems };
+  }
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+    // DNA never contains spaces, so it is the last word; whatever comes before names it
+    const split = trimmed.lastIndexOf(' ');
+    const name = split < 0 ? '' : trimmed.slice(0, split).replace(/[\s:=–—-]+$/, '');
+    add(`Line ${i + 1}`, name, trimmed.slice(split + 1));
+  });
+  return { presets, problems };
+};
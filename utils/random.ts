@@ -0,0 +1,20 @@
+// Seedable pseudo-random numbers (mulberry32) so a plant can be regrown exactly from its DNA
+
+export type Random = () => number;
+
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fresh 32-bit seed for a newly planted plant
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+// Short non-deterministic id for plants and growers; never influences a plant's shape
+export const uuid = () => Math.random().toString(36).substr(2, 9);
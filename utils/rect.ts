@@ -0,0 +1,33 @@
+// Small helpers for axis-aligned rectangles
+
+import { Rect } from '../types';
+
+export const unionRect = (a: Rect, b: Rect): Rect => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+};
+
+export const sameRect = (a: Rect | null, b: Rect | null) =>
+  a === b || (!!a && !!b && a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height);
+
+export const rectsIntersect = (a: Rect, b: Rect) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+export const containsRect = (outer: Rect, inner: Rect) =>
+  inner.x >= outer.x && inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width && inner.y + inner.height <= outer.y + outer.height;
+
+export const padRect = ({ x, y, width, height }: Rect, by: number): Rect =>
+  ({ x: x - by, y: y - by, width: width + by * 2, height: height + by * 2 });
+
+export const translateRect = ({ x, y, width, height }: Rect, dx: number, dy: number): Rect =>
+  ({ x: x + dx, y: y + dy, width, height });
+
+export const containsPoint = ({ x, y, width, height }: Rect, px: number, py: number) =>
+  px >= x && px <= x + width && py >= y && py <= y + height;
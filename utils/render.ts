@@ -0,0 +1,125 @@
+// Paints retained plant scenes (see SceneElement in types.ts) onto a canvas
+
+import { createRandom } from './random';
+import { getSpecies } from '../species';
+import { VESSEL_HEIGHT, VESSEL_WIDTH } from './vessel';
+import { unionRect } from './rect';
+import { BloomShape, LeafShape, Point, Rect, SceneElement, StemSegment, Vessel } from '../types';
+
+// The part of the canvas API the plant painters use, so they can also draw into other targets (e.g. SVG)
+export type PaintContext = Pick<CanvasRenderingContext2D,
+  'save' | 'restore' | 'translate' | 'rotate' |
+  'beginPath' | 'closePath' | 'moveTo' | 'lineTo' | 'quadraticCurveTo' | 'bezierCurveTo' | 'arc' | 'ellipse' | 'fill' | 'stroke' |
+  'fillStyle' | 'strokeStyle' | 'lineWidth' | 'lineCap' | 'lineJoin' | 'globalAlpha' | 'globalCompositeOperation' |
+  'shadowBlur' | 'shadowColor' | 'shadowOffsetY'>;
+
+export const drawSegment = (ctx: PaintContext, { x1, y1, x2, y2, width, color }: StemSegment) => {
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+  ctx.moveTo(x1, y1);
+  ctx.lineTo(x2, y2);
+  ctx.lineWidth = width;
+  ctx.strokeStyle = color;
+  ctx.globalAlpha = 0.9;
+  ctx.stroke();
+  ctx.globalAlpha = 1.0;
+};
+
+export const drawLeaf = (ctx: PaintContext, { x, y, angle, size, color, type }: LeafShape) => {
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.rotate(angle);
+  ctx.fillStyle = color;
+  ctx.shadowBlur = 2;
+  ctx.shadowColor = "rgba(0,0,0,0.05)";
+  ctx.shadowOffsetY = 2;
+  
+  ctx.beginPath();
+  getSpecies(type).drawLeaf(ctx, size);
+  ctx.restore();
+};
+
+export const drawFlower = (ctx: PaintContext, bloom: BloomShape) => {
+  // Berry, floret and spathe placement is replayed from the bloom's own seed
+  const random = createRandom(bloom.seed);
+
+  ctx.save();
+  ctx.translate(bloom.x, bloom.y);
+  ctx.shadowBlur = 4;
+  ctx.shadowColor = "rgba(0,0,0,0.1)";
+  ctx.shadowOffsetY = 2;
+
+  getSpecies(bloom.type).drawFlower(ctx, bloom, random);
+  ctx.restore();
+};
+
+// Paints scene elements in order, starting at `from` so growing plants only paint what is new.
+// The scene is in plant-local coordinates; (x, y) is where the plant's root lands on the canvas.
+export const renderScene = (ctx: PaintContext, elements: SceneElement[], x: number, y: number, from = 0) => {
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.translate(x, y);
+  for (let i = from; i < elements.length; i++) {
+    const element = elements[i];
+    if (element.kind === 'segment') drawSegment(ctx, element);
+    else if (element.kind === 'leaf') drawLeaf(ctx, element);
+    else drawFlower(ctx, element);
+  }
+  ctx.restore();
+};
+
+// Conservative bounding box of one scene element in plant-local coordinates, including leaf and bloom overhang
+export const elementBounds = (element: SceneElement): Rect => {
+  if (element.kind === 'segment') {
+    const reach = element.width / 2;
+    return {
+      x: Math.min(element.x1, element.x2) - reach,
+      y: Math.min(element.y1, element.y2) - reach,
+      width: Math.abs(element.x2 - element.x1) + reach * 2,
+      height: Math.abs(element.y2 - element.y1) + reach * 2,
+    };
+  }
+  const reach = element.kind === 'leaf' ? element.size * 1.5 : element.size * 2;
+  return { x: element.x - reach, y: element.y - reach, width: reach * 2, height: reach * 2 };
+};
+
+// Conservative bounding box of a scene in plant-local coordinates, root included
+export const sceneBounds = (elements: SceneElement[]): Rect =>
+  elements.reduce((bounds, element) => unionRect(bounds, elementBounds(element)), { x: 0, y: 0, width: 0, height: 0 });
+
+// Outlines a polygon as the current path, e.g. to clip to a vessel
+export const traceOutline = (ctx: PaintContext, outline: Point[]) => {
+  ctx.beginPath();
+  outline.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+  ctx.closePath();
+};
+
+// The glass vessel as styled in GardenCanvas.tsx (tinted glass, outline, reflections), stretched over `box`, for raster exports
+export const drawBottleGlass = (ctx: CanvasRenderingContext2D, { x, y, width, height }: Rect, vessel: Vessel) => {
+  const glass = new Path2D(vessel.path);
+  const scaleX = width / VESSEL_WIDTH;
+  const scaleY = height / VESSEL_HEIGHT;
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.scale(scaleX, scaleY);
+
+  ctx.save();
+  ctx.shadowColor = 'rgba(0,0,0,0.15)';
+  ctx.shadowBlur = 25;
+  ctx.shadowOffsetY = 20;
+  ctx.fillStyle = 'rgba(255,255,255,0.1)';
+  ctx.fill(glass);
+  ctx.restore();
+
+  ctx.strokeStyle = 'rgba(203,213,225,0.6)';
+  ctx.lineWidth = 2 / Math.min(scaleX, scaleY);
+  ctx.stroke(glass);
+
+  ctx.clip(glass);
+  ctx.fillStyle = 'rgba(255,255,255,0.3)';
+  ctx.fillRect(VESSEL_WIDTH - 32, 16, 1, 128);
+  ctx.fillStyle = 'rgba(255,255,255,0.1)';
+  ctx.fillRect(VESSEL_WIDTH - 32, 32, 8, 64);
+  ctx.restore();
+};
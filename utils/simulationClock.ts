@@ -0,0 +1,30 @@
+// Turns frame timestamps into fixed growth ticks, so a plant grows at the same pace whatever the display's refresh rate
+
+// Growth steps per second at 1x; plants were tuned against one step per frame on 60Hz displays
+export const TICKS_PER_SECOND = 60;
+export const GROWTH_SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+
+const TICK_MS = 1000 / TICKS_PER_SECOND;
+// Longer gaps (a background tab, a breakpoint) are not caught up on
+const MAX_FRAME_MS = 250;
+
+export class SimulationClock {
+  private last: number | null = null;
+  private pending = 0; // Simulated milliseconds not yet spent on a whole tick
+
+  // How many ticks are due at `now` (ms) at `speed`
+  advance(now: number, speed: number): number {
+    // The first frame after the clock was idle runs one tick, so a new plant shows straight away
+    this.pending += this.last === null ? TICK_MS : Math.max(0, Math.min(now - this.last, MAX_FRAME_MS)) * speed;
+    this.last = now;
+    const ticks = Math.floor(this.pending / TICK_MS);
+    this.pending -= ticks * TICK_MS;
+    return ticks;
+  }
+
+  // Forgets the last frame, e.g. while paused or idle, so the time in between is not grown all at once
+  reset() {
+    this.last = null;
+    this.pending = 0;
+  }
+}
@@ -0,0 +1,220 @@
+// Vector export of plant scenes. Leaves and blooms are drawn by the same painters as the canvas,
+// through a recorder that turns canvas path calls into SVG elements.
+
+import { drawFlower, drawLeaf, PaintContext, sceneBounds } from './render';
+import { VESSEL_HEIGHT, VESSEL_WIDTH } from './vessel';
+import { GardenSnapshot, PlacedScene, SceneElement, StemSegment } from '../types';
+
+// Segments per stem path; the stroke width steps down between chunks to keep the taper
+const STEM_CHUNK = 6;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Records canvas drawing calls as SVG markup. Plant painters only translate and rotate,
+// so points are transformed into user space as they are recorded and arcs stay circular.
+class SvgPainter implements PaintContext {
+  fillStyle: string | CanvasGradient | CanvasPattern = '#000000';
+  strokeStyle: string | CanvasGradient | CanvasPattern = '#000000';
+  lineWidth = 1;
+  lineCap: CanvasLineCap = 'butt';
+  lineJoin: CanvasLineJoin = 'miter';
+  globalAlpha = 1;
+  globalCompositeOperation: GlobalCompositeOperation = 'source-over';
+  shadowBlur = 0;
+  shadowColor = 'transparent';
+  shadowOffsetY = 0;
+
+  output: string[] = [];
+  private matrix = { x: 0, y: 0, angle: 0 };
+  private stack: { matrix: SvgPainter['matrix']; fillStyle: SvgPainter['fillStyle']; strokeStyle: SvgPainter['strokeStyle']; lineWidth: number; lineCap: CanvasLineCap; globalAlpha: number }[] = [];
+  private path: string[] = [];
+  private hasCurrentPoint = false;
+
+  save() {
+    this.stack.push({ matrix: { ...this.matrix }, fillStyle: this.fillStyle, strokeStyle: this.strokeStyle, lineWidth: this.lineWidth, lineCap: this.lineCap, globalAlpha: this.globalAlpha });
+  }
+
+  restore() {
+    const state = this.stack.pop();
+    if (!state) return;
+    this.matrix = state.matrix;
+    this.fillStyle = state.fillStyle;
+    this.strokeStyle = state.strokeStyle;
+    this.lineWidth = state.lineWidth;
+    this.lineCap = state.lineCap;
+    this.globalAlpha = state.globalAlpha;
+  }
+
+  translate(x: number, y: number) {
+    const p = this.point(x, y);
+    this.matrix.x = p.x;
+    this.matrix.y = p.y;
+  }
+
+  rotate(angle: number) {
+    this.matrix.angle += angle;
+  }
+
+  private point(x: number, y: number) {
+    const { angle } = this.matrix;
+    return {
+      x: this.matrix.x + x * Math.cos(angle) - y * Math.sin(angle),
+      y: this.matrix.y + x * Math.sin(angle) + y * Math.cos(angle)
+    };
+  }
+
+  private command(letter: string, ...points: [number, number][]) {
+    const coords = points.map(([x, y]) => {
+      const p = this.point(x, y);
+      return `${round(p.x)} ${round(p.y)}`;
+    });
+    this.path.push(`${letter}${coords.join(' ')}`);
+    this.hasCurrentPoint = true;
+  }
+
+  beginPath() {
+    this.path = [];
+    this.hasCurrentPoint = false;
+  }
+
+  closePath() {
+    this.path.push('Z');
+  }
+
+  moveTo(x: number, y: number) {
+    this.command('M', [x, y]);
+  }
+
+  lineTo(x: number, y: number) {
+    this.command(this.hasCurrentPoint ? 'L' : 'M', [x, y]);
+  }
+
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number) {
+    this.command('Q', [cpx, cpy], [x, y]);
+  }
+
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number) {
+    this.command('C', [cp1x, cp1y], [cp2x, cp2y], [x, y]);
+  }
+
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false) {
+    this.ellipse(x, y, radius, radius, 0, startAngle, endAngle, counterclockwise);
+  }
+
+  // Follows the canvas rules for sweeping from startAngle to endAngle, split in two when it is a full turn
+  ellipse(x: number, y: number, radiusX: number, radiusY: number, rotation: number, startAngle: number, endAngle: number, counterclockwise = false) {
+    const TAU = Math.PI * 2;
+    const mod = (n: number) => ((n % TAU) + TAU) % TAU;
+    let sweep = counterclockwise ? -mod(startAngle - endAngle) : mod(endAngle - startAngle);
+    if (!counterclockwise && endAngle - startAngle >= TAU) sweep = TAU;
+    if (counterclockwise && startAngle - endAngle >= TAU) sweep = -TAU;
+
+    const at = (t: number): [number, number] => [
+      x + radiusX * Math.cos(t) * Math.cos(rotation) - radiusY * Math.sin(t) * Math.sin(rotation),
+      y + radiusX * Math.cos(t) * Math.sin(rotation) + radiusY * Math.sin(t) * Math.cos(rotation)
+    ];
+    const axisRotation = round(((rotation + this.matrix.angle) * 180) / Math.PI);
+
+    this.lineTo(...at(startAngle));
+    const pieces = Math.abs(sweep) >= TAU ? 2 : 1;
+    for (let i = 1; i <= pieces; i++) {
+      const [ex, ey] = at(startAngle + (sweep * i) / pieces);
+      const end = this.point(ex, ey);
+      const largeArc = Math.abs(sweep / pieces) > Math.PI ? 1 : 0;
+      this.path.push(`A${round(radiusX)} ${round(radiusY)} ${axisRotation} ${largeArc} ${sweep > 0 ? 1 : 0} ${round(end.x)} ${round(end.y)}`);
+    }
+  }
+
+  private opacity() {
+    return this.globalAlpha < 1 ? ` opacity="${round(this.globalAlpha)}"` : '';
+  }
+
+  fill() {
+    if (this.path.length === 0) return;
+    this.output.push(`<path d="${this.path.join('')}" fill="${this.fillStyle}"${this.opacity()}/>`);
+  }
+
+  stroke() {
+    if (this.path.length === 0) return;
+    this.output.push(`<path d="${this.path.join('')}" fill="none" stroke="${this.strokeStyle}" stroke-width="${round(this.lineWidth)}" stroke-linecap="${this.lineCap}"${this.opacity()}/>`);
+  }
+}
+
+// One stroked path per run of segments, coloured by a gradient running along that grower's stem
+const stemsToSvg = (segments: StemSegment[], idPrefix: string, defs: string[]) => {
+  const byGrower = new Map<string, StemSegment[]>();
+  segments.forEach(segment => {
+    const list = byGrower.get(segment.growerId) ?? [];
+    list.push(segment);
+    byGrower.set(segment.growerId, list);
+  });
+
+  const paths: string[] = [];
+  let index = 0;
+  byGrower.forEach(stem => {
+    const first = stem[0];
+    const last = stem[stem.length - 1];
+    const id = `${idPrefix}-stem-${index++}`;
+    defs.push(
+      `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${round(first.x1)}" y1="${round(first.y1)}" x2="${round(last.x2)}" y2="${round(last.y2)}">` +
+      `<stop offset="0" stop-color="${first.color}"/><stop offset="1" stop-color="${last.color}"/></linearGradient>`
+    );
+    for (let i = 0; i < stem.length; i += STEM_CHUNK) {
+      const chunk = stem.slice(i, i + STEM_CHUNK);
+      const d = `M${round(chunk[0].x1)} ${round(chunk[0].y1)}` + chunk.map(s => `L${round(s.x2)} ${round(s.y2)}`).join('');
+      paths.push(`<path d="${d}" fill="none" stroke="url(#${id})" stroke-width="${round(chunk[0].width)}" stroke-linecap="round" stroke-linejoin="round" opacity="0.9"/>`);
+    }
+  });
+  return paths;
+};
+
+// A plant as an SVG group: stems underneath, then leaves and blooms in the order they grew
+const plantToGroup = ({ scene: elements, x, y, transform }: PlacedScene, idPrefix: string, defs: string[]) => {
+  const segments = elements.filter((e): e is StemSegment => e.kind === 'segment');
+  const painter = new SvgPainter();
+  elements.forEach(element => {
+    if (element.kind === 'leaf') drawLeaf(painter, element);
+    else if (element.kind === 'bloom') drawFlower(painter, element);
+  });
+  const scaled = transform && (transform.scale !== 1 || transform.mirrored)
+    ? ` scale(${round(transform.mirrored ? -transform.scale : transform.scale)} ${round(transform.scale)})`
+    : '';
+  return `<g transform="translate(${round(x)} ${round(y)})${scaled}">${stemsToSvg(segments, idPrefix, defs).join('')}<g>${painter.output.join('')}</g></g>`;
+};
+
+const svgDocument = (width: number, height: number, viewBox: string, defs: string[], body: string[]) =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n` +
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}" height="${round(height)}" viewBox="${viewBox}">` +
+  `<defs>${defs.join('')}</defs>${body.join('')}</svg>\n`;
+
+// The whole garden as layered SVG: paper, outside plants, then each vessel with its contents
+export const gardenToSvg = ({ width, height, background, outside, vessels }: GardenSnapshot): string => {
+  const defs: string[] = [];
+  const body: string[] = [
+    `<rect id="paper" width="${round(width)}" height="${round(height)}" fill="${background}"/>`,
+    `<g id="outside">${outside.map((p, i) => plantToGroup(p, `outside-${i}`, defs)).join('')}</g>`
+  ];
+
+  vessels.forEach(({ x, y, width: w, height: h, vessel, plants }, v) => {
+    const contents = plants.map((p, i) => plantToGroup(p, `vessel-${v}-${i}`, defs)).join('');
+    // The vessel's path is drawn in its own box, stretched over the vessel's
+    const transform = `translate(${round(x)} ${round(y)}) scale(${round(w / VESSEL_WIDTH)} ${round(h / VESSEL_HEIGHT)})`;
+    // Vessel contents are clipped at the glass, as on screen
+    defs.push(`<clipPath id="vessel-${v}-clip"><path d="${vessel.path}" transform="${transform}"/></clipPath>`);
+    const glass = `<g transform="${transform}"><path d="${vessel.path}" fill="#ffffff" fill-opacity="0.1"/>` +
+      `<path d="${vessel.path}" fill="none" stroke="#cbd5e1" stroke-opacity="0.6" stroke-width="2" vector-effect="non-scaling-stroke"/></g>`;
+    body.push(`<g id="vessel-${v}"><g clip-path="url(#vessel-${v}-clip)">${contents}</g>${glass}</g>`);
+  });
+
+  return svgDocument(width, height, `0 0 ${round(width)} ${round(height)}`, defs, body);
+};
+
+// A single plant, cropped to its own bounds
+export const plantToSvg = (scene: SceneElement[], padding = 10): string => {
+  const bounds = sceneBounds(scene);
+  const defs: string[] = [];
+  const width = bounds.width + padding * 2;
+  const height = bounds.height + padding * 2;
+  const viewBox = `${round(bounds.x - padding)} ${round(bounds.y - padding)} ${round(width)} ${round(height)}`;
+  return svgDocument(width, height, viewBox, defs, [plantToGroup({ scene, x: 0, y: 0 }, 'plant', defs)]);
+};
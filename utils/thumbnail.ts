@@ -0,0 +1,32 @@
+// Small offscreen renders of whole plants, for the variant gallery and the settings preview
+
+import { growScene } from './growth';
+import { renderScene, sceneBounds } from './render';
+import { PlantSettings, SceneElement } from '../types';
+
+// Scale and root position that fit a whole scene into a width x height box, centered and standing on the bottom edge.
+// The root position is in scaled units, i.e. for use after the context has been scaled.
+export const fitScene = (scene: SceneElement[], width: number, height: number, padding: number) => {
+  const bounds = sceneBounds(scene);
+  const scale = Math.min((width - padding * 2) / Math.max(bounds.width, 1), (height - padding * 2) / Math.max(bounds.height, 1));
+  return {
+    scale,
+    x: (width / scale - bounds.width) / 2 - bounds.x,
+    y: (height - padding) / scale - (bounds.y + bounds.height)
+  };
+};
+
+// Grows the plant to completion and paints it scaled to fit a square of `size` CSS pixels, as a PNG data URL
+export const renderThumbnail = (settings: PlantSettings, seed: number, size: number, pixelRatio = window.devicePixelRatio || 1, padding = 4): string => {
+  const scene = growScene(settings, seed);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(size * pixelRatio);
+  canvas.height = Math.round(size * pixelRatio);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  const fit = fitScene(scene, size, size, padding);
+  ctx.setTransform(pixelRatio * fit.scale, 0, 0, pixelRatio * fit.scale, 0, 0);
+  renderScene(ctx, scene, fit.x, fit.y);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,86 @@
+// Vessel shapes for the bottle: preset outlines plus custom SVG paths, all drawn in a VESSEL_WIDTH × VESSEL_HEIGHT box
+// that is stretched over the bottle's box on screen. The outline is cached per path, since it is needed every tick.
+
+import { flattenPath, floorAt, outlineBounds, PathError } from './outline';
+import { Point, Vessel, VesselShape } from '../types';
+
+export const VESSEL_WIDTH = 320;
+export const VESSEL_HEIGHT = 280;
+const MAX_PATH_LENGTH = 2000;
+// Outlines may touch the edge of their box; rounding in hand-written paths is forgiven
+const BOX_TOLERANCE = 1;
+
+export const VESSEL_PRESETS: Record<Exclude<VesselShape, 'custom'>, { label: string; path: string }> = {
+  jar: { label: 'Jar', path: 'M0 0 V280 H320 V0 Z' },
+  flask: { label: 'Flask', path: 'M120 0 V109.4 A90 90 0 1 0 200 109.4 V0 Z' },
+  dome: { label: 'Dome', path: 'M10 280 V140 A150 140 0 0 1 310 140 V280 Z' },
+  globe: { label: 'Globe', path: 'M130 3.3 A140 140 0 1 0 190 3.3 Z' },
+};
+
+export const VESSEL_SHAPES: VesselShape[] = ['jar', 'flask', 'dome', 'globe', 'custom'];
+
+export const DEFAULT_VESSEL: Vessel = { shape: 'jar', path: VESSEL_PRESETS.jar.path };
+
+export const isVesselShape = (value: unknown): value is VesselShape =>
+  typeof value === 'string' && (VESSEL_SHAPES as string[]).includes(value);
+
+// A readable problem with a vessel path, or null if it outlines a usable vessel
+export const checkVesselPath = (path: string): string | null => {
+  if (path.length > MAX_PATH_LENGTH) return `Vessel outline must be at most ${MAX_PATH_LENGTH} characters (got ${path.length}).`;
+  let outline: Point[];
+  try {
+    outline = flattenPath(path);
+  } catch (e) {
+    if (e instanceof PathError) return e.message;
+    throw e;
+  }
+  const bounds = outlineBounds(outline);
+  if (bounds.x < -BOX_TOLERANCE || bounds.y < -BOX_TOLERANCE ||
+      bounds.x + bounds.width > VESSEL_WIDTH + BOX_TOLERANCE || bounds.y + bounds.height > VESSEL_HEIGHT + BOX_TOLERANCE) {
+    return `Vessel outline must stay within 0 0 ${VESSEL_WIDTH} ${VESSEL_HEIGHT}.`;
+  }
+  if (bounds.width < 20 || bounds.height < 20) return 'Vessel outline is too small to grow anything in.';
+  return null;
+};
+
+const outlines = new Map<string, Point[]>();
+
+// The vessel's outline in its own box. Only call with paths that passed checkVesselPath.
+export const vesselOutline = (vessel: Vessel): Point[] => {
+  let outline = outlines.get(vessel.path);
+  if (!outline) {
+    outline = flattenPath(vessel.path);
+    outlines.set(vessel.path, outline);
+  }
+  return outline;
+};
+
+// The lowest point inside the vessel on its vertical center line, or its lowest corner if the line misses it
+export const vesselFloor = (vessel: Vessel): Point => {
+  const outline = vesselOutline(vessel);
+  const x = VESSEL_WIDTH / 2;
+  const floor = floorAt(outline, x);
+  if (floor !== null) return { x, y: floor };
+  return outline.reduce((lowest, p) => p.y > lowest.y ? p : lowest);
+};
+
+// The outline stretched over a box on screen
+export const placeOutline = (vessel: Vessel, { x, y, width, height }: { x: number; y: number; width: number; height: number }): Point[] => {
+  const sx = width / VESSEL_WIDTH;
+  const sy = height / VESSEL_HEIGHT;
+  return vesselOutline(vessel).map(p => ({ x: x + p.x * sx, y: y + p.y * sy }));
+};
+
+// Returns one readable message per problem; an empty list means the vessel can be used
+export const validateVessel = (candidate: unknown): string[] => {
+  if (!candidate || typeof candidate !== 'object') return ['Vessel is missing.'];
+  const { shape, path } = candidate as Record<string, unknown>;
+  const problems: string[] = [];
+  if (!isVesselShape(shape)) problems.push(`Unknown vessel shape "${String(shape)}".`);
+  if (typeof path !== 'string') problems.push('Vessel outline must be an SVG path.');
+  else {
+    const problem = checkVesselPath(path);
+    if (problem) problems.push(problem);
+  }
+  return problems;
+};